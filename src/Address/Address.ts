@@ -0,0 +1,327 @@
+import { EntityType } from "@radixdlt/radix-engine-toolkit";
+import {
+  AccountAddress,
+  AddressExpectation,
+  AddressKind,
+  BrandedAddress,
+  ComponentAddress,
+  DecodedAddress,
+  IdentityAddress,
+  InvalidAddressError,
+  LockerAddress,
+  PackageAddress,
+  PoolAddress,
+  ResourceAddress,
+  ValidatorAddress,
+} from "./AddressTypes";
+import { NetworkContext } from "../Network/NetworkContext";
+
+const CHARSET = "qpzry9x8gf2tvdw0s3jn54khce6mua7l";
+const BECH32M_CONST = 0x2bc830a3;
+
+type EntityInfo = {
+  entityType: EntityType;
+  kind: AddressKind;
+  hrpPrefix: string;
+  isVirtual: boolean;
+};
+
+function entity(
+  entityType: EntityType,
+  kind: AddressKind,
+  hrpPrefix: string,
+  isVirtual?: boolean,
+): EntityInfo {
+  return {
+    entityType: entityType,
+    kind: kind,
+    hrpPrefix: hrpPrefix,
+    isVirtual: isVirtual === true,
+  };
+}
+
+// Entity types by the first byte of the node id
+const ENTITIES = new Map<number, EntityInfo>([
+  [0x0d, entity(EntityType.GlobalPackage, "Package", "package")],
+  [
+    0x86,
+    entity(
+      EntityType.GlobalConsensusManager,
+      "ConsensusManager",
+      "consensusmanager",
+    ),
+  ],
+  [0x83, entity(EntityType.GlobalValidator, "Validator", "validator")],
+  [
+    0x82,
+    entity(
+      EntityType.GlobalTransactionTracker,
+      "TransactionTracker",
+      "transactiontracker",
+    ),
+  ],
+  [0xc0, entity(EntityType.GlobalGenericComponent, "Component", "component")],
+  [0xc1, entity(EntityType.GlobalAccount, "Account", "account")],
+  [0xc2, entity(EntityType.GlobalIdentity, "Identity", "identity")],
+  [
+    0xc3,
+    entity(
+      EntityType.GlobalAccessController,
+      "AccessController",
+      "accesscontroller",
+    ),
+  ],
+  [0xc4, entity(EntityType.GlobalOneResourcePool, "Pool", "pool")],
+  [0xc5, entity(EntityType.GlobalTwoResourcePool, "Pool", "pool")],
+  [0xc6, entity(EntityType.GlobalMultiResourcePool, "Pool", "pool")],
+  [0x68, entity(EntityType.GlobalAccountLocker, "Locker", "locker")],
+  [
+    0xd1,
+    entity(
+      EntityType.GlobalVirtualSecp256k1Account,
+      "Account",
+      "account",
+      true,
+    ),
+  ],
+  [
+    0x51,
+    entity(EntityType.GlobalVirtualEd25519Account, "Account", "account", true),
+  ],
+  [
+    0xd2,
+    entity(
+      EntityType.GlobalVirtualSecp256k1Identity,
+      "Identity",
+      "identity",
+      true,
+    ),
+  ],
+  [
+    0x52,
+    entity(
+      EntityType.GlobalVirtualEd25519Identity,
+      "Identity",
+      "identity",
+      true,
+    ),
+  ],
+  [
+    0x5d,
+    entity(EntityType.GlobalFungibleResourceManager, "Resource", "resource"),
+  ],
+  [
+    0x9a,
+    entity(EntityType.GlobalNonFungibleResourceManager, "Resource", "resource"),
+  ],
+  [0x58, entity(EntityType.InternalFungibleVault, "Vault", "internal_vault")],
+  [
+    0x98,
+    entity(EntityType.InternalNonFungibleVault, "Vault", "internal_vault"),
+  ],
+  [
+    0xf8,
+    entity(
+      EntityType.InternalGenericComponent,
+      "InternalComponent",
+      "internal_component",
+    ),
+  ],
+  [
+    0xb0,
+    entity(
+      EntityType.InternalKeyValueStore,
+      "KeyValueStore",
+      "internal_keyvaluestore",
+    ),
+  ],
+]);
+
+function polymod(values: number[]): number {
+  const generators = [
+    0x3b6a57b2, 0x26508e6d, 0x1ea119fa, 0x3d4233dd, 0x2a1462b3,
+  ];
+  let checksum = 1;
+  values.forEach((value) => {
+    const top = checksum >>> 25;
+    checksum = ((checksum & 0x1ffffff) << 5) ^ value;
+    generators.forEach((generator, i) => {
+      if ((top >>> i) & 1) {
+        checksum ^= generator;
+      }
+    });
+  });
+  return checksum >>> 0;
+}
+
+function hrpExpand(hrp: string): number[] {
+  const chars = [...hrp].map((char) => char.charCodeAt(0));
+  return [...chars.map((c) => c >>> 5), 0, ...chars.map((c) => c & 31)];
+}
+
+function fromWords(address: string, words: number[]): Uint8Array {
+  let bytes: number[] = [];
+  let accumulator = 0;
+  let bits = 0;
+  words.forEach((word) => {
+    accumulator = (accumulator << 5) | word;
+    bits += 5;
+    while (bits >= 8) {
+      bits -= 8;
+      bytes.push((accumulator >>> bits) & 0xff);
+    }
+  });
+  if (bits >= 5 || (accumulator << (8 - bits)) & 0xff) {
+    throw new InvalidAddressError(address, "invalid padding");
+  }
+  return new Uint8Array(bytes);
+}
+
+function networkIdOf(hrpSuffix: string): number | undefined {
+  const registered = NetworkContext.findByHrpSuffix(hrpSuffix);
+  if (registered) {
+    return registered.networkId();
+  }
+  // Test networks without a dedicated HRP use their id in hexadecimal
+  const match = /^tdx_([0-9a-f]{1,2})_$/.exec(hrpSuffix);
+  return match ? parseInt(match[1]!, 16) : undefined;
+}
+
+/**
+ * Decodes a Radix bech32m address and reports its entity type and network.
+ * @param address Address to decode.
+ * @throws InvalidAddressError if the address is not a valid Radix address.
+ */
+export function decodeAddress(address: string): DecodedAddress {
+  if (address !== address.toLowerCase()) {
+    throw new InvalidAddressError(address, "addresses are lowercase");
+  }
+  const separator = address.lastIndexOf("1");
+  if (separator < 1 || separator + 7 > address.length) {
+    throw new InvalidAddressError(address, "missing bech32 separator");
+  }
+  const hrp = address.slice(0, separator);
+  let words: number[] = [];
+  for (const char of address.slice(separator + 1)) {
+    const word = CHARSET.indexOf(char);
+    if (word === -1) {
+      throw new InvalidAddressError(address, `invalid character ${char}`);
+    }
+    words.push(word);
+  }
+  if (polymod([...hrpExpand(hrp), ...words]) !== BECH32M_CONST) {
+    throw new InvalidAddressError(address, "invalid checksum");
+  }
+
+  const data = fromWords(address, words.slice(0, -6));
+  const info = ENTITIES.get(data[0]!);
+  if (!info || data.length !== 30) {
+    throw new InvalidAddressError(address, "unknown entity type");
+  }
+  if (!hrp.startsWith(`${info.hrpPrefix}_`)) {
+    throw new InvalidAddressError(
+      address,
+      `HRP does not match entity type ${info.entityType}`,
+    );
+  }
+  const hrpSuffix = hrp.slice(info.hrpPrefix.length + 1);
+
+  return {
+    address: address,
+    hrp: hrp,
+    entityType: info.entityType,
+    kind: info.kind,
+    isVirtual: info.isVirtual,
+    hrpSuffix: hrpSuffix,
+    networkId: networkIdOf(hrpSuffix),
+    data: data,
+  };
+}
+
+/**
+ * Checks that an address is valid and matches what is expected of it.
+ * @param address Address to check.
+ * @param expected Accepted kinds and network.
+ * @throws InvalidAddressError if the address is invalid or unexpected.
+ */
+export function validateAddress(
+  address: string,
+  expected?: AddressExpectation,
+): DecodedAddress {
+  const decoded = decodeAddress(address);
+  if (expected?.kinds && !expected.kinds.includes(decoded.kind)) {
+    throw new InvalidAddressError(
+      address,
+      `expected ${expected.kinds.join(" or ")}, found ${decoded.kind}`,
+    );
+  }
+  if (
+    expected?.networkId !== undefined &&
+    decoded.networkId !== expected.networkId
+  ) {
+    throw new InvalidAddressError(
+      address,
+      `expected network ${expected.networkId}, found HRP suffix ${decoded.hrpSuffix}`,
+    );
+  }
+  return decoded;
+}
+
+/**
+ * Returns whether an address is valid and matches what is expected of it.
+ * @param address Address to check.
+ * @param expected Accepted kinds and network.
+ */
+export function isValidAddress(
+  address: string,
+  expected?: AddressExpectation,
+): boolean {
+  try {
+    validateAddress(address, expected);
+    return true;
+  } catch (e) {
+    return false;
+  }
+}
+
+function brand<K extends AddressKind>(
+  kind: K,
+): (address: string, networkId?: number) => BrandedAddress<K> {
+  return (address, networkId) => {
+    validateAddress(address, { kinds: [kind], networkId: networkId });
+    return address as BrandedAddress<K>;
+  };
+}
+
+export const asAccountAddress: (
+  address: string,
+  networkId?: number,
+) => AccountAddress = brand("Account");
+export const asIdentityAddress: (
+  address: string,
+  networkId?: number,
+) => IdentityAddress = brand("Identity");
+export const asResourceAddress: (
+  address: string,
+  networkId?: number,
+) => ResourceAddress = brand("Resource");
+export const asPackageAddress: (
+  address: string,
+  networkId?: number,
+) => PackageAddress = brand("Package");
+export const asComponentAddress: (
+  address: string,
+  networkId?: number,
+) => ComponentAddress = brand("Component");
+export const asValidatorAddress: (
+  address: string,
+  networkId?: number,
+) => ValidatorAddress = brand("Validator");
+export const asPoolAddress: (
+  address: string,
+  networkId?: number,
+) => PoolAddress = brand("Pool");
+export const asLockerAddress: (
+  address: string,
+  networkId?: number,
+) => LockerAddress = brand("Locker");
@@ -0,0 +1,74 @@
+import { EntityType } from "@radixdlt/radix-engine-toolkit";
+
+/**
+ * Kind of entity an address points to, as shown by the prefix of its HRP.
+ */
+export type AddressKind =
+  | "Account"
+  | "Identity"
+  | "Resource"
+  | "Package"
+  | "Component"
+  | "Validator"
+  | "Pool"
+  | "Locker"
+  | "ConsensusManager"
+  | "AccessController"
+  | "TransactionTracker"
+  | "Vault"
+  | "InternalComponent"
+  | "KeyValueStore";
+
+declare const addressBrand: unique symbol;
+
+/**
+ * Address checked to be of a given kind. Obtained from the `as...Address` functions.
+ */
+export type BrandedAddress<K extends AddressKind> = string & {
+  readonly [addressBrand]: K;
+};
+
+export type AccountAddress = BrandedAddress<"Account">;
+export type IdentityAddress = BrandedAddress<"Identity">;
+export type ResourceAddress = BrandedAddress<"Resource">;
+export type PackageAddress = BrandedAddress<"Package">;
+export type ComponentAddress = BrandedAddress<"Component">;
+export type ValidatorAddress = BrandedAddress<"Validator">;
+export type PoolAddress = BrandedAddress<"Pool">;
+export type LockerAddress = BrandedAddress<"Locker">;
+
+export type DecodedAddress = {
+  address: string;
+  hrp: string;
+  entityType: EntityType;
+  kind: AddressKind;
+  /** Whether the address is derived from a public key, for accounts and identities. */
+  isVirtual: boolean;
+  /** Suffix of the HRP identifying the network, such as `rdx` or `tdx_2_`. */
+  hrpSuffix: string;
+  /** Id of the network, when known from the registry or from the HRP. */
+  networkId?: number;
+  /** Node id: the entity type byte followed by the rest of the address. */
+  data: Uint8Array;
+};
+
+export type AddressExpectation = {
+  /** Accepted kinds. Any kind is accepted when not provided. */
+  kinds?: AddressKind[];
+  /** Network the address must belong to. */
+  networkId?: number;
+};
+
+export class InvalidAddressError extends Error {
+  readonly address: string;
+  readonly reason: string;
+
+  constructor(address: string, reason: string) {
+    super(`Invalid address ${address}: ${reason}`);
+    this.name = "InvalidAddressError";
+    this.address = address;
+    this.reason = reason;
+
+    Object.setPrototypeOf(this, InvalidAddressError.prototype);
+  }
+}
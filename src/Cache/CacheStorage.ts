@@ -0,0 +1,74 @@
+/**
+ * Storage of cached Gateway responses. Values are plain JSON, so a storage can be shared between
+ * processes, such as one backed by Redis.
+ */
+export interface CacheStorage {
+  get<T>(key: string): Promise<T | undefined>;
+  /**
+   * @param ttl Time to live of the entry, in milliseconds. Entries without one are kept until evicted.
+   */
+  set<T>(key: string, value: T, ttl?: number): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+export type CacheOptions = {
+  /** Storage of the cached responses. Default is an in-memory LRU of 1000 entries. */
+  storage?: CacheStorage;
+  /** Time to live of reads at the latest state, in milliseconds. Default is 10000. Reads pinned to a state version never expire. */
+  ttl?: number;
+};
+
+type LruEntry = {
+  value: unknown;
+  expiresAt: number | undefined;
+};
+
+/**
+ * In-memory storage evicting the least recently used entries.
+ */
+export class LruCacheStorage implements CacheStorage {
+  private readonly _maxEntries: number;
+  private readonly _entries: Map<string, LruEntry>;
+
+  /**
+   * Constructs a new LruCacheStorage instance.
+   * @param maxEntries Maximum number of entries to keep. Default is 1000.
+   */
+  constructor(maxEntries?: number) {
+    this._maxEntries = maxEntries ? maxEntries : 1000;
+    this._entries = new Map<string, LruEntry>();
+  }
+
+  async get<T>(key: string): Promise<T | undefined> {
+    const entry = this._entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+    this._entries.delete(key);
+    if (entry.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+      return undefined;
+    }
+    // Map keeps insertion order: moving the entry last marks it as recently used
+    this._entries.set(key, entry);
+    return entry.value as T;
+  }
+
+  async set<T>(key: string, value: T, ttl?: number): Promise<void> {
+    this._entries.delete(key);
+    this._entries.set(key, {
+      value: value,
+      expiresAt: ttl !== undefined ? Date.now() + ttl : undefined,
+    });
+    while (this._entries.size > this._maxEntries) {
+      this._entries.delete(this._entries.keys().next().value!);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this._entries.delete(key);
+  }
+
+  size(): number {
+    return this._entries.size;
+  }
+}
@@ -0,0 +1,313 @@
+import BigNumber from "bignumber.js";
+import {
+  DecimalFormatOptions,
+  InvalidDecimalError,
+  RoundingMode,
+} from "./DecimalTypes";
+
+const DIVISIBILITY = 18;
+// Decimals of the Radix engine are 192-bit signed integers scaled by 10^18
+const MAX_ATTOS = new BigNumber(2).pow(191).minus(1);
+const MIN_ATTOS = new BigNumber(2).pow(191).negated();
+const COMPACT_SUFFIXES: [number, string][] = [
+  [12, "T"],
+  [9, "B"],
+  [6, "M"],
+  [3, "K"],
+];
+
+function roundingMode(mode: RoundingMode): BigNumber.RoundingMode {
+  switch (mode) {
+    case "Down":
+      return BigNumber.ROUND_DOWN;
+    case "Up":
+      return BigNumber.ROUND_UP;
+    case "HalfUp":
+      return BigNumber.ROUND_HALF_UP;
+    case "HalfEven":
+      return BigNumber.ROUND_HALF_EVEN;
+  }
+}
+
+export type DecimalLike = Decimal | BigNumber | number | string;
+
+/**
+ * Exact amount with the semantics of the Radix engine Decimal: fixed point with 18 decimal places,
+ * truncating any further digit, and bounded to the 192-bit range. Instances are immutable.
+ * Replaces the former `Decimal` type alias of `number | string | BigNumber`: parameters taking
+ * such values are now typed DecimalLike.
+ */
+export class Decimal {
+  static readonly DIVISIBILITY = DIVISIBILITY;
+  static readonly ZERO = new Decimal(new BigNumber(0));
+  static readonly ONE = new Decimal(new BigNumber(1));
+
+  private readonly _value: BigNumber;
+
+  private constructor(value: BigNumber) {
+    this._value = value;
+  }
+
+  /**
+   * Creates a Decimal, truncating the digits beyond 18 decimal places.
+   * @param value Amount to convert. Strings are parsed in plain or exponential notation.
+   * @throws InvalidDecimalError if the value is not a finite number or is out of range.
+   */
+  static from(value: DecimalLike): Decimal {
+    if (value instanceof Decimal) {
+      return value;
+    }
+    const parsed = BigNumber.isBigNumber(value)
+      ? value
+      : new BigNumber(typeof value === "string" ? value.trim() : value);
+    if (!parsed.isFinite()) {
+      throw new InvalidDecimalError(String(value), "not a finite number");
+    }
+    return Decimal.checked(
+      parsed.decimalPlaces(DIVISIBILITY, BigNumber.ROUND_DOWN),
+    );
+  }
+
+  /**
+   * Checks whether a value can be converted to a Decimal.
+   * @param value Value to check.
+   */
+  static isValid(value: DecimalLike): boolean {
+    try {
+      Decimal.from(value);
+      return true;
+    } catch (err) {
+      return false;
+    }
+  }
+
+  /**
+   * Adds up amounts.
+   * @param values Amounts to add up.
+   */
+  static sum(values: DecimalLike[]): Decimal {
+    return values.reduce<Decimal>(
+      (sum, value) => sum.plus(value),
+      Decimal.ZERO,
+    );
+  }
+
+  static max(first: DecimalLike, ...others: DecimalLike[]): Decimal {
+    return others.reduce<Decimal>(
+      (max, value) => (max.lt(value) ? Decimal.from(value) : max),
+      Decimal.from(first),
+    );
+  }
+
+  static min(first: DecimalLike, ...others: DecimalLike[]): Decimal {
+    return others.reduce<Decimal>(
+      (min, value) => (min.gt(value) ? Decimal.from(value) : min),
+      Decimal.from(first),
+    );
+  }
+
+  private static checked(value: BigNumber): Decimal {
+    const attos = value.shiftedBy(DIVISIBILITY);
+    if (attos.gt(MAX_ATTOS) || attos.lt(MIN_ATTOS)) {
+      throw new InvalidDecimalError(value.toFixed(), "out of range");
+    }
+    // Normalizes negative zero
+    return new Decimal(value.isZero() ? new BigNumber(0) : value);
+  }
+
+  plus(other: DecimalLike): Decimal {
+    return Decimal.checked(this._value.plus(Decimal.from(other)._value));
+  }
+
+  minus(other: DecimalLike): Decimal {
+    return Decimal.checked(this._value.minus(Decimal.from(other)._value));
+  }
+
+  times(other: DecimalLike): Decimal {
+    return Decimal.checked(
+      this._value
+        .times(Decimal.from(other)._value)
+        .decimalPlaces(DIVISIBILITY, BigNumber.ROUND_DOWN),
+    );
+  }
+
+  /**
+   * Divides this amount, truncating the quotient to 18 decimal places.
+   * @param other Divisor.
+   * @throws InvalidDecimalError if the divisor is zero.
+   */
+  div(other: DecimalLike): Decimal {
+    const divisor = Decimal.from(other);
+    if (divisor.isZero()) {
+      throw new InvalidDecimalError(this.toString(), "division by zero");
+    }
+    return Decimal.checked(
+      this._value
+        .shiftedBy(DIVISIBILITY)
+        .idiv(divisor._value)
+        .shiftedBy(-DIVISIBILITY),
+    );
+  }
+
+  /**
+   * Multiplies this amount by a ratio, truncating once to 18 decimal places. Unlike chaining times
+   * and div, the intermediate product may exceed the Decimal range.
+   * @param numerator Numerator of the ratio.
+   * @param denominator Denominator of the ratio.
+   * @throws InvalidDecimalError if the denominator is zero.
+   */
+  mulDiv(numerator: DecimalLike, denominator: DecimalLike): Decimal {
+    const divisor = Decimal.from(denominator);
+    if (divisor.isZero()) {
+      throw new InvalidDecimalError(this.toString(), "division by zero");
+    }
+    return Decimal.checked(
+      this._value
+        .times(Decimal.from(numerator)._value)
+        .shiftedBy(DIVISIBILITY)
+        .idiv(divisor._value)
+        .shiftedBy(-DIVISIBILITY),
+    );
+  }
+
+  negated(): Decimal {
+    return Decimal.checked(this._value.negated());
+  }
+
+  abs(): Decimal {
+    return Decimal.checked(this._value.abs());
+  }
+
+  /**
+   * Rounds this amount to the divisibility of a resource.
+   * @param divisibility Number of decimal places kept, between 0 and 18.
+   * @param mode Rounding of the dropped digits. Default is Down, the rounding of the Radix engine.
+   */
+  roundTo(divisibility: number, mode?: RoundingMode): Decimal {
+    return Decimal.checked(
+      this._value.decimalPlaces(
+        Math.min(Math.max(divisibility, 0), DIVISIBILITY),
+        roundingMode(mode ? mode : "Down"),
+      ),
+    );
+  }
+
+  comparedTo(other: DecimalLike): -1 | 0 | 1 {
+    return this._value.comparedTo(Decimal.from(other)._value) as -1 | 0 | 1;
+  }
+
+  eq(other: DecimalLike): boolean {
+    return this.comparedTo(other) === 0;
+  }
+
+  gt(other: DecimalLike): boolean {
+    return this.comparedTo(other) > 0;
+  }
+
+  gte(other: DecimalLike): boolean {
+    return this.comparedTo(other) >= 0;
+  }
+
+  lt(other: DecimalLike): boolean {
+    return this.comparedTo(other) < 0;
+  }
+
+  lte(other: DecimalLike): boolean {
+    return this.comparedTo(other) <= 0;
+  }
+
+  isZero(): boolean {
+    return this._value.isZero();
+  }
+
+  isPositive(): boolean {
+    return this._value.gt(0);
+  }
+
+  isNegative(): boolean {
+    return this._value.lt(0);
+  }
+
+  /**
+   * Returns the amount in plain notation, without trailing zeros. This is the format expected by
+   * the Gateway and by transaction manifests.
+   */
+  toString(): string {
+    return this._value.toFixed();
+  }
+
+  /**
+   * Returns the amount with a fixed number of decimal places, rounding down.
+   * @param decimals Number of decimal places. Every significant decimal place when not provided.
+   */
+  toFixed(decimals?: number): string {
+    if (decimals === undefined) {
+      return this._value.toFixed();
+    }
+    return this._value.toFixed(decimals, BigNumber.ROUND_DOWN);
+  }
+
+  toJSON(): string {
+    return this.toString();
+  }
+
+  /**
+   * Converts the amount to a JavaScript number, which may lose precision.
+   */
+  toNumber(): number {
+    return this._value.toNumber();
+  }
+
+  toBigNumber(): BigNumber {
+    return this._value;
+  }
+
+  /**
+   * Formats the amount for display.
+   * @param options Decimal places, symbol, notation and separators to use.
+   * @returns The formatted amount, for instance "1,234.5 XRD" or "1.23M XRD" in compact notation.
+   */
+  format(options?: DecimalFormatOptions): string {
+    const compact = options && options.compact === true;
+    const rounding = roundingMode(
+      options && options.rounding ? options.rounding : "Down",
+    );
+    const decimals =
+      options && options.decimals !== undefined
+        ? options.decimals
+        : compact
+          ? 2
+          : DIVISIBILITY;
+
+    let value = this._value;
+    let suffix = "";
+    if (compact) {
+      const magnitude = value.abs().integerValue(BigNumber.ROUND_DOWN);
+      const match = COMPACT_SUFFIXES.find(([exponent]) =>
+        magnitude.gte(new BigNumber(10).pow(exponent)),
+      );
+      if (match) {
+        value = value.shiftedBy(-match[0]);
+        suffix = match[1];
+      }
+    }
+
+    let formatted = value
+      .decimalPlaces(Math.max(decimals, 0), rounding)
+      .toFormat({
+        decimalSeparator: ".",
+        groupSeparator:
+          options && options.groupSeparator !== undefined
+            ? options.groupSeparator
+            : ",",
+        groupSize: 3,
+      });
+    if (formatted === "-0") {
+      formatted = "0";
+    }
+    formatted += suffix;
+    return options && options.symbol
+      ? `${formatted} ${options.symbol}`
+      : formatted;
+  }
+}
@@ -0,0 +1,35 @@
+/**
+ * Rounding of the digits beyond the precision kept:
+ * - Down: towards zero;
+ * - Up: away from zero;
+ * - HalfUp: to the nearest value, away from zero when halfway;
+ * - HalfEven: to the nearest value, to the even neighbour when halfway.
+ */
+export type RoundingMode = "Down" | "Up" | "HalfUp" | "HalfEven";
+
+export type DecimalFormatOptions = {
+  /** Maximum number of decimal places shown. Default is 18, or 2 in compact notation. */
+  decimals?: number;
+  /** Symbol appended after the amount. */
+  symbol?: string;
+  /** Whether to abbreviate large amounts with K, M, B and T suffixes. Default is false. */
+  compact?: boolean;
+  /** Separator of the groups of thousands. Default is ",". */
+  groupSeparator?: string;
+  /** Rounding of the hidden decimal places. Default is Down, so a balance is never overstated. */
+  rounding?: RoundingMode;
+};
+
+export class InvalidDecimalError extends Error {
+  readonly value: string;
+  readonly reason: string;
+
+  constructor(value: string, reason: string) {
+    super(`Invalid decimal ${value}: ${reason}`);
+    this.name = "InvalidDecimalError";
+    this.value = value;
+    this.reason = reason;
+
+    Object.setPrototypeOf(this, InvalidDecimalError.prototype);
+  }
+}
@@ -0,0 +1,71 @@
+import { CommittedTransactionInfo } from "@radixdlt/babylon-gateway-api-sdk";
+import { EventFilter, EventHandler, ReceiptEvent } from "./EventTypes";
+import { matchesFilter, receiptEvents } from "./Utils";
+
+/**
+ * Dispatches the events emitted by committed transactions to the handlers registered for them.
+ */
+export class EventDispatcher {
+  private _subscriptions: { filter: EventFilter; handler: EventHandler }[];
+
+  constructor() {
+    this._subscriptions = [];
+  }
+
+  /**
+   * Registers a handler for the events matching a filter.
+   * @param filter Filter on the emitter, event name, package and blueprint. Missing fields match anything.
+   * Package and blueprint filters need transactions with detailed events to match method events.
+   * @param handler Handler called with the decoded event and the transaction emitting it.
+   * @returns A function removing the subscription.
+   */
+  on<T>(filter: EventFilter, handler: EventHandler<T>): () => void {
+    // The type of the decoded data is asserted by the caller, from the filter it subscribes with
+    const subscription = { filter: filter, handler: handler as EventHandler };
+    this._subscriptions.push(subscription);
+    return () => {
+      this._subscriptions = this._subscriptions.filter(
+        (other) => other !== subscription,
+      );
+    };
+  }
+
+  /**
+   * Decodes the events of a committed transaction.
+   * Detailed events are used when present, as they carry the package and blueprint of every emitter.
+   * @param transaction Committed transaction with receipt events.
+   */
+  events(transaction: CommittedTransactionInfo): ReceiptEvent[] {
+    return receiptEvents(transaction);
+  }
+
+  /**
+   * Calls the handlers subscribed to the events of a committed transaction, in emission order.
+   * @param transaction Committed transaction with receipt events.
+   * @returns A promise resolving to the number of handler calls made.
+   */
+  async dispatch(transaction: CommittedTransactionInfo): Promise<number> {
+    let calls = 0;
+    for (const event of this.events(transaction)) {
+      for (const subscription of this._subscriptions) {
+        if (matchesFilter(event, subscription.filter)) {
+          await subscription.handler(event, transaction);
+          calls += 1;
+        }
+      }
+    }
+    return calls;
+  }
+
+  /**
+   * Dispatches the events of every transaction of a stream, until the stream ends.
+   * @param stream Stream of committed transactions, e.g. from `GatewayProcessor.streamTransactions`.
+   */
+  async consume(
+    stream: AsyncIterable<CommittedTransactionInfo>,
+  ): Promise<void> {
+    for await (const transaction of stream) {
+      await this.dispatch(transaction);
+    }
+  }
+}
@@ -0,0 +1,71 @@
+import { Decimal } from "../Decimal/Decimal";
+import {
+  CommittedTransactionInfo,
+  ProgrammaticScryptoSborValue,
+} from "@radixdlt/babylon-gateway-api-sdk";
+import { SborEnum } from "../Sbor/SborTypes";
+
+export type ReceiptEvent<T = unknown> = {
+  name: string;
+  /** Address of the entity that emitted the event, or of the package for function events. */
+  emitter: string;
+  /** Address of the global entity owning the emitter, e.g. the account owning a vault. */
+  globalEmitter?: string;
+  packageAddress?: string;
+  blueprintName?: string;
+  data: T;
+  rawData: ProgrammaticScryptoSborValue;
+};
+
+/**
+ * Filter on receipt events. Missing fields match anything.
+ * The package and blueprint of method events are only known from `receipt.detailed_events`, which
+ * the transactions fetched by GatewayProcessor include. Method events read from plain
+ * `receipt.events` never match a packageAddress or blueprintName filter.
+ */
+export type EventFilter = {
+  /** Matches both the emitter and its global ancestor. */
+  emitter?: string;
+  name?: string;
+  packageAddress?: string;
+  blueprintName?: string;
+};
+
+export type EventHandler<T = unknown> = (
+  event: ReceiptEvent<T>,
+  transaction: CommittedTransactionInfo,
+) => void | Promise<void>;
+
+export type WithdrawEvent = {
+  amount: Decimal;
+};
+
+export type DepositEvent = {
+  amount: Decimal;
+};
+
+export type NonFungibleWithdrawEvent = {
+  ids: string[];
+};
+
+export type NonFungibleDepositEvent = {
+  ids: string[];
+};
+
+export type MintFungibleResourceEvent = {
+  amount: Decimal;
+};
+
+export type BurnFungibleResourceEvent = {
+  amount: Decimal;
+};
+
+export type MintNonFungibleResourceEvent = {
+  ids: string[];
+};
+
+export type BurnNonFungibleResourceEvent = {
+  ids: string[];
+};
+
+export type DecodedEnum = SborEnum;
@@ -0,0 +1,108 @@
+import {
+  CommittedTransactionInfo,
+  DetailedEventsItem,
+  EventsItem,
+  ProgrammaticScryptoSborValue,
+} from "@radixdlt/babylon-gateway-api-sdk";
+import { EventFilter, ReceiptEvent } from "./EventTypes";
+import { decodeSbor } from "../Sbor/SborDecoder";
+import { SborValue } from "../Sbor/SborTypes";
+
+type RawEventEmitter =
+  | {
+      type: "Method";
+      entity: { entity_address: string };
+    }
+  | {
+      type: "Function";
+      package_address: string;
+      blueprint_name: string;
+    };
+
+/**
+ * Decodes the data of an event into native JS values, see SborValue for the mapping.
+ * @param data Programmatic JSON of the event data.
+ */
+export function decodeEventData(data: ProgrammaticScryptoSborValue): SborValue {
+  return decodeSbor(data);
+}
+
+/**
+ * Converts an event from a transaction receipt into a ReceiptEvent.
+ * @param event Event as returned in `receipt.events`.
+ */
+export function fromEventsItem(event: EventsItem): ReceiptEvent {
+  const emitter = event.emitter as RawEventEmitter;
+  const base = {
+    name: event.name,
+    data: decodeEventData(event.data),
+    rawData: event.data,
+  };
+  if (emitter.type === "Function") {
+    return {
+      ...base,
+      emitter: emitter.package_address,
+      packageAddress: emitter.package_address,
+      blueprintName: emitter.blueprint_name,
+    };
+  }
+  return { ...base, emitter: emitter.entity.entity_address };
+}
+
+/**
+ * Converts an event from `receipt.detailed_events` into a ReceiptEvent.
+ * @param event Detailed event.
+ */
+export function fromDetailedEventsItem(
+  event: DetailedEventsItem,
+): ReceiptEvent {
+  const rawData = event.payload
+    .programmatic_json as ProgrammaticScryptoSborValue;
+  return {
+    name: event.identifier.event,
+    emitter:
+      event.emitter.type === "EntityMethod"
+        ? event.emitter.method_emitter.entity
+        : event.identifier._package,
+    globalEmitter:
+      event.emitter.type === "EntityMethod"
+        ? event.emitter.global_emitter
+        : undefined,
+    packageAddress: event.identifier._package,
+    blueprintName: event.identifier.blueprint,
+    data: decodeEventData(rawData),
+    rawData: rawData,
+  };
+}
+
+/**
+ * Decodes the events of a committed transaction.
+ * Detailed events are used when present, as they carry the package and blueprint of every emitter.
+ */
+export function receiptEvents(
+  transaction: CommittedTransactionInfo,
+): ReceiptEvent[] {
+  const receipt = transaction.receipt;
+  if (!receipt) {
+    return [];
+  }
+  if (receipt.detailed_events) {
+    return receipt.detailed_events.map(fromDetailedEventsItem);
+  }
+  return (receipt.events || []).map(fromEventsItem);
+}
+
+export function matchesFilter(
+  event: ReceiptEvent,
+  filter: EventFilter,
+): boolean {
+  return (
+    (!filter.emitter ||
+      filter.emitter === event.emitter ||
+      filter.emitter === event.globalEmitter) &&
+    (!filter.name || filter.name === event.name) &&
+    (!filter.packageAddress ||
+      filter.packageAddress === event.packageAddress) &&
+    (!filter.blueprintName || filter.blueprintName === event.blueprintName)
+  );
+}
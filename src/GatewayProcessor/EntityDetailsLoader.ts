@@ -0,0 +1,127 @@
+import {
+  LedgerState,
+  ResourceAggregationLevel,
+  StateEntityDetailsResponse,
+  StateEntityDetailsResponseItem,
+} from "@radixdlt/babylon-gateway-api-sdk";
+import { isTransientError } from "./RetryPolicy";
+import { divideInBatches } from "./Utils";
+
+export type EntityDetailsEntry = {
+  ledger_state: LedgerState;
+  item?: StateEntityDetailsResponseItem;
+};
+
+type PendingLoad = {
+  address: string;
+  resolve: (entry: EntityDetailsEntry) => void;
+  reject: (error: unknown) => void;
+};
+
+type FetchEntityDetails = (
+  addresses: string[],
+  aggregationLevel: ResourceAggregationLevel,
+  atStateVersion?: number,
+) => Promise<StateEntityDetailsResponse>;
+
+/**
+ * Coalesces the entity details requested in the same tick into batched calls, and shares the
+ * result of a request in flight between its callers. Each processor view has its own loader, so
+ * that the calls go through the lane, logger and instrumentation of the view.
+ */
+export class EntityDetailsLoader {
+  private readonly _fetch: FetchEntityDetails;
+  private readonly _inFlight: Map<string, Promise<EntityDetailsEntry>>;
+  private _queue: Map<string, PendingLoad[]>;
+  private _scheduled: boolean;
+
+  constructor(fetch: FetchEntityDetails) {
+    this._fetch = fetch;
+    this._inFlight = new Map<string, Promise<EntityDetailsEntry>>();
+    this._queue = new Map<string, PendingLoad[]>();
+    this._scheduled = false;
+  }
+
+  /**
+   * Loads the details of an entity with the next batch.
+   * @param address Address of the entity.
+   * @param aggregationLevel Level of aggregation of the resources.
+   * @param atStateVersion State version to read at. Latest state when not provided.
+   */
+  load(
+    address: string,
+    aggregationLevel: ResourceAggregationLevel,
+    atStateVersion?: number,
+  ): Promise<EntityDetailsEntry> {
+    const group = `${aggregationLevel}:${atStateVersion !== undefined ? atStateVersion : "latest"}`;
+    const key = `${group}:${address}`;
+    const inFlight = this._inFlight.get(key);
+    if (inFlight) {
+      return inFlight;
+    }
+
+    const load = new Promise<EntityDetailsEntry>((resolve, reject) => {
+      this._queue.set(group, [
+        ...(this._queue.get(group) || []),
+        { address: address, resolve: resolve, reject: reject },
+      ]);
+    });
+    this._inFlight.set(key, load);
+    load.finally(() => this._inFlight.delete(key)).catch(() => {});
+
+    if (!this._scheduled) {
+      this._scheduled = true;
+      setTimeout(() => this.flush(), 0);
+    }
+    return load;
+  }
+
+  private flush() {
+    const queue = this._queue;
+    this._queue = new Map<string, PendingLoad[]>();
+    this._scheduled = false;
+
+    queue.forEach((loads, group) => {
+      const [aggregationLevel, state] = group.split(":");
+      divideInBatches(loads, 20).forEach((batch) =>
+        this.fetchBatch(
+          batch,
+          aggregationLevel as ResourceAggregationLevel,
+          state === "latest" ? undefined : parseInt(state!),
+        ),
+      );
+    });
+  }
+
+  private async fetchBatch(
+    loads: PendingLoad[],
+    aggregationLevel: ResourceAggregationLevel,
+    atStateVersion: number | undefined,
+  ) {
+    try {
+      const resp = await this._fetch(
+        loads.map((load) => load.address),
+        aggregationLevel,
+        atStateVersion,
+      );
+      const items = new Map(resp.items.map((item) => [item.address, item]));
+      loads.forEach((load) =>
+        load.resolve({
+          ledger_state: resp.ledger_state,
+          item: items.get(load.address),
+        }),
+      );
+    } catch (err) {
+      // An invalid address fails its whole batch: load one by one to only fail its callers
+      if (loads.length > 1 && !isTransientError(err)) {
+        await Promise.all(
+          loads.map((load) =>
+            this.fetchBatch([load], aggregationLevel, atStateVersion),
+          ),
+        );
+      } else {
+        loads.forEach((load) => load.reject(err));
+      }
+    }
+  }
+}
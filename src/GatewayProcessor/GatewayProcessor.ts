@@ -1,10 +1,14 @@
 import {
   CommittedTransactionInfo,
+  EntityMetadataItem,
   EntityMetadataItemValue,
   GatewayApiClient,
+  LedgerStateSelector,
   NonFungibleResourcesCollectionItem,
+  ProgrammaticScryptoSborValue,
   ResourceAggregationLevel,
   StateEntityDetailsResponse,
+  StateEntityMetadataPageResponse,
   StateEntityNonFungibleIdsPageResponse,
   StateEntityNonFungiblesPageResponse,
   StateKeyValueStoreDataRequestKeyItem,
@@ -13,88 +17,270 @@ import {
   StateKeyValueStoreKeysResponseItem,
   StateNonFungibleDetailsResponseItem,
   StateNonFungibleIdsResponse,
+  ResourceHoldersCollectionItem,
+  ResourceHoldersResponse,
+  StateEntityDetailsResponseItem,
+  StateEntityFungibleResourceVaultsPageResponse,
   StateNonFungibleLocationResponseItem,
+  StateValidatorsListResponse,
   StreamTransactionsResponse,
   TransactionCommittedDetailsResponse,
-  TransactionStatus,
   TransactionStatusResponse,
+  ValidatorCollectionItem,
+  ValidatorsUptimeResponse,
+  FungibleResourcesCollectionItemGloballyAggregated,
+  StateEntityFungiblesPageResponse,
 } from "@radixdlt/babylon-gateway-api-sdk";
 import {
   Convert,
   generateRandomNonce,
-  NetworkId,
+  Instructions,
   PrivateKey,
   RadixEngineToolkit,
   TransactionBuilder,
   TransactionHash,
   TransactionManifest,
 } from "@radixdlt/radix-engine-toolkit";
-import { divideInBatches, parseNonFungibleData, withMaxLoops } from "./Utils";
+import {
+  diffHoldings,
+  divideInBatches,
+  isAccountAddress,
+  parseNonFungibleData,
+  parseResourceBehaviours,
+  parseTransactionPreview,
+  parsePoolUnitRedemption,
+  parseTransactionReceipt,
+  parseValidator,
+  toGatewayPublicKey,
+  unstakeDataCodec,
+} from "./Utils";
+import { retryAfterDelay, RetryPolicy } from "./RetryPolicy";
+import { RequestScheduler, SchedulerLane } from "./RequestScheduler";
+import { decodeSbor } from "../Sbor/SborDecoder";
+import { Codec } from "../Sbor/SborTypes";
+import { metadataString, toEntityMetadata } from "../Metadata/MetadataDecoder";
+import { EntityMetadata } from "../Metadata/MetadataTypes";
+import { NetworkContext } from "../Network/NetworkContext";
+import { Logger, silentLogger } from "../Observability/Logger";
+import { Instrumentation } from "../Observability/Instrumentation";
+import { decodeAddress, validateAddress } from "../Address/Address";
+import { AddressKind } from "../Address/AddressTypes";
+import { Decimal } from "../Decimal/Decimal";
+import {
+  CacheOptions,
+  CacheStorage,
+  LruCacheStorage,
+} from "../Cache/CacheStorage";
+import { EntityDetailsEntry, EntityDetailsLoader } from "./EntityDetailsLoader";
+import {
+  CollectionHoldersSnapshot,
+  Distribution,
+  DistributionOptions,
+  FungibleHoldersSnapshot,
+  SnapshotOptions,
+} from "../Holders/HolderTypes";
+import { calculateDistribution } from "../Holders/Distribution";
+import { StakeUnitHolding, UnstakeClaim, Validator } from "../Types/Staking";
+import {
+  TransactionTracker,
+  TransactionTrackerOptions,
+} from "./TransactionTracker";
+import {
+  TransactionStream,
+  TransactionStreamOptions,
+} from "./TransactionStream";
 import {
   FungibleResource,
+  Holdings,
+  HoldingsDiff,
+  InvalidLedgerStateError,
   NonFungibleItem,
   NonFungibleResource,
+  PoolUnitRedemption,
   ResourceInformation,
 } from "../Types/RadixTypes";
-import pLimit from "p-limit";
+import {
+  PreviewOptions,
+  SubmitManifestOptions,
+  TransactionPreview,
+  TransactionPreviewError,
+  TransactionReceipt,
+  TransactionTrackingError,
+} from "../Types/Transaction";
+import { StringManifestBuilder } from "../ManifestBuilder/StringManifestBuilder";
+import {
+  Signer,
+  signToSignatureWithPublicKey,
+  toSigner,
+} from "../Signer/Signer";
 
 /**
  * Class responsible for interacting with the Radix gateway API.
  */
 export class GatewayProcessor {
   private readonly _api: GatewayApiClient;
-  private readonly _maxLoops: number;
-  private readonly _concurrencyLimit: number;
+  private readonly _retryPolicy: RetryPolicy;
+  private _scheduler: RequestScheduler;
+  private _lane: SchedulerLane;
+  private _atStateVersion: number | undefined;
+  private _network: Promise<NetworkContext> | undefined;
+  private _validateAddresses: boolean;
+  private _logger: Logger;
+  private _instrumentation: Instrumentation[];
+  private _cache: ResponseCache | undefined;
 
   /**
    * Constructs a new GatewayProcessor instance.
    * @param gatewayApi GatewayApiClient instance to build the processor around.
-   * @param maxLoops Maximum number of retry loops for API requests. Default is 30.
-   * @param concurrencyLimit Maximum number of parallel calls to the Gateway to make.
+   * @param maxLoops Maximum number of attempts for API requests. Default is 30. Ignored if a retry policy is given.
+   * @param concurrencyLimit Maximum number of parallel calls to the Gateway to make. Default is 10. Ignored if a scheduler is given.
+   * @param retryPolicy Policy to use to retry failed API requests.
+   * @param scheduler Scheduler of the requests to the Gateway, possibly shared with other processors.
    */
   constructor(
     gatewayApi: GatewayApiClient,
     maxLoops?: number,
     concurrencyLimit?: number,
+    retryPolicy?: RetryPolicy,
+    scheduler?: RequestScheduler,
   ) {
     this._api = gatewayApi;
-    this._maxLoops = maxLoops ? maxLoops : 30;
-    this._concurrencyLimit = concurrencyLimit ? concurrencyLimit : 10;
+    this._retryPolicy = retryPolicy
+      ? retryPolicy
+      : new RetryPolicy({ maxAttempts: maxLoops ? maxLoops : 30 });
+    this._scheduler = scheduler
+      ? scheduler
+      : new RequestScheduler({
+          maxInFlight: concurrencyLimit ? concurrencyLimit : 10,
+        });
+    this._lane = "interactive";
+    this._atStateVersion = undefined;
+    this._network = undefined;
+    this._validateAddresses = false;
+    this._logger = silentLogger;
+    this._instrumentation = [];
+    this._cache = undefined;
   }
 
   /**
    * Constructs a new GatewayProcessor instance.
-   * @param networkId Identifier of the Radix network to connect to.
-   * @param maxLoops Maximum number of retry loops for API requests. Default is 30.
-   * @param concurrencyLimit Maximum number of parallel calls to the Gateway to make.
+   * @param networkId Identifier of the Radix network to connect to. Must be registered in the NetworkContext registry.
+   * @param maxLoops Maximum number of attempts for API requests. Default is 30. Ignored if a retry policy is given.
+   * @param concurrencyLimit Maximum number of parallel calls to the Gateway to make. Default is 10. Ignored if a scheduler is given.
    * @param name Application name to be used for API requests. If not provided, a default name will be generated.
+   * @param retryPolicy Policy to use to retry failed API requests.
+   * @param scheduler Scheduler of the requests to the Gateway, possibly shared with other processors.
    */
   public static fromNetworkId(
     networkId: number,
     maxLoops?: number,
     concurrencyLimit?: number,
     name?: string,
+    retryPolicy?: RetryPolicy,
+    scheduler?: RequestScheduler,
   ) {
+    const network = NetworkContext.get(networkId);
     const client = GatewayApiClient.initialize({
-      basePath: getApiAddress(networkId),
+      basePath: network.gatewayUrl(),
       applicationName: name ? name : "Gateway Processor",
     });
-    return new GatewayProcessor(client, maxLoops, concurrencyLimit);
+    const processor = new GatewayProcessor(
+      client,
+      maxLoops,
+      concurrencyLimit,
+      retryPolicy,
+      scheduler,
+    );
+    processor._network = Promise.resolve(network);
+    return processor;
+  }
+
+  /**
+   * Creates a snapshot view of this processor where every query is pinned to the same ledger state.
+   * @param state State version, or timestamp resolved to the state version at that time.
+   * @returns A promise resolving to a GatewayProcessor pinned to the given state version.
+   * @throws InvalidLedgerStateError if the state version is not a positive integer, or the timestamp
+   * is invalid, in the future or before the first ledger state.
+   */
+  async atLedgerState(
+    state: number | Date | string,
+  ): Promise<GatewayProcessor> {
+    const stateVersion = await this.resolveStateVersion(state);
+    const snapshot = this.view();
+    snapshot._atStateVersion = stateVersion;
+    return snapshot;
+  }
+
+  /**
+   * Creates a view of this processor sending its requests in the given lane of the shared
+   * scheduler. Use the background lane for bulk work that should not delay interactive queries.
+   * @param lane Lane to send the requests in.
+   */
+  inLane(lane: SchedulerLane): GatewayProcessor {
+    const view = this.view();
+    view._lane = lane;
+    return view;
+  }
+
+  /**
+   * Returns the scheduler of the requests to the Gateway.
+   */
+  scheduler(): RequestScheduler {
+    return this._scheduler;
+  }
+
+  /**
+   * Returns the logger of the processor.
+   */
+  logger(): Logger {
+    return this._logger;
+  }
+
+  /**
+   * Enables or disables the validation of the addresses given to the processor. When enabled,
+   * addresses of the wrong kind or from another network are rejected before querying the Gateway.
+   * @param enabled Whether to validate addresses.
+   */
+  setAddressValidation(enabled: boolean): this {
+    this._validateAddresses = enabled;
+    return this;
+  }
+
+  /**
+   * Sets the logger used to report failed calls to the Gateway, such as consoleLogger.
+   * Default discards the messages.
+   * @param logger Logger to use.
+   */
+  setLogger(logger: Logger): this {
+    this._logger = logger;
+    return this;
+  }
+
+  /**
+   * Adds hooks called around every call to the Gateway, such as a MetricsCollector.
+   * @param instrumentation Hooks to call.
+   */
+  addInstrumentation(instrumentation: Instrumentation): this {
+    this._instrumentation = [...this._instrumentation, instrumentation];
+    return this;
+  }
+
+  /**
+   * Returns the state version this processor is pinned to, if any.
+   */
+  pinnedStateVersion(): number | undefined {
+    return this._atStateVersion;
   }
 
   /**
-   * Fetches the current ledger state version of the network.
+   * Fetches the current ledger state version of the network, or the pinned one for a snapshot view.
    * @returns A promise resolving to the current ledger state version.
    */
   async ledgerState(): Promise<number> {
-    return withMaxLoops(
-      async () => {
-        let status = await this._api.status.getCurrent();
-        return status.ledger_state.state_version;
-      },
-      "Could not fetch current ledger state",
-      this._maxLoops,
-    );
+    if (this._atStateVersion !== undefined) {
+      return this._atStateVersion;
+    }
+    return this.currentStateVersion();
   }
 
   /**
@@ -107,22 +293,101 @@ export class GatewayProcessor {
     addresses: string[],
     aggregationLevel: ResourceAggregationLevel = "Global",
   ): Promise<StateEntityDetailsResponse> {
-    return withMaxLoops(
-      async () => {
-        return await this._api.state.innerClient.stateEntityDetails({
-          stateEntityDetailsRequest: {
-            addresses: addresses,
-            aggregation_level: aggregationLevel,
-            opt_ins: {
-              ancestor_identities: true,
-              component_royalty_vault_balance: true,
-              package_royalty_vault_balance: true,
-            },
-          },
-        });
-      },
-      `Could not query entity details for array of ${addresses.length} items`,
-      this._maxLoops,
+    await this.checkAddresses(addresses);
+    if (!this._cache) {
+      return this.fetchEntityDetails(
+        addresses,
+        aggregationLevel,
+        this._atStateVersion,
+      );
+    }
+
+    const cache = this._cache;
+    const entries = await Promise.all(
+      [...new Set(addresses)].map(async (address) => {
+        const key = entityDetailsCacheKey(
+          address,
+          aggregationLevel,
+          this._atStateVersion,
+        );
+        const cached = await cache.storage.get<EntityDetailsEntry>(key);
+        if (cached) {
+          return cached;
+        }
+        const entry = await cache.loader.load(
+          address,
+          aggregationLevel,
+          this._atStateVersion,
+        );
+        if (entry.item) {
+          await cache.storage.set(
+            key,
+            entry,
+            this._atStateVersion !== undefined ? undefined : cache.ttl,
+          );
+        }
+        return entry;
+      }),
+    );
+
+    if (entries.length === 0) {
+      return this.fetchEntityDetails(
+        [],
+        aggregationLevel,
+        this._atStateVersion,
+      );
+    }
+    const newest = entries.reduce((newest, entry) =>
+      entry.ledger_state.state_version > newest.ledger_state.state_version
+        ? entry
+        : newest,
+    );
+    // Copied so that callers changing the response leave the cached entries intact
+    return structuredClone({
+      ledger_state: newest.ledger_state,
+      items: entries
+        .map((entry) => entry.item)
+        .filter(
+          (item): item is StateEntityDetailsResponseItem => item !== undefined,
+        ),
+    });
+  }
+
+  /**
+   * Enables the caching of entity and resource lookups. Reads at the latest state are kept for the
+   * time to live of the cache, reads pinned to a state version are kept until evicted. Concurrent
+   * lookups of single entities are merged into batched calls to the Gateway.
+   * The cache is shared with the views created from this processor. Unpinned responses may mix
+   * entities read at different state versions: their ledger state is the newest of these reads.
+   * @param options Storage and time to live of the cache.
+   */
+  enableCache(options?: CacheOptions): this {
+    this._cache = {
+      storage:
+        options && options.storage ? options.storage : new LruCacheStorage(),
+      ttl: options && options.ttl !== undefined ? options.ttl : 10000,
+      loader: this.entityDetailsLoader(),
+    };
+    return this;
+  }
+
+  /**
+   * Removes the cached reads of the latest state of the given entities, for instance after a
+   * transaction changed them. Reads pinned to a state version are never stale and are kept.
+   * @param addresses Addresses of the entities.
+   */
+  async invalidateCache(addresses: string[]): Promise<void> {
+    if (!this._cache) {
+      return;
+    }
+    const storage = this._cache.storage;
+    const levels: ResourceAggregationLevel[] = ["Global", "Vault"];
+    await Promise.all(
+      addresses.flatMap((address) =>
+        levels.map((level) =>
+          storage.delete(entityDetailsCacheKey(address, level, undefined)),
+        ),
+      ),
     );
   }
 
@@ -167,52 +432,209 @@ export class GatewayProcessor {
     return fullStream.slice(0, stopAmount);
   }
 
+  /**
+   * Streams committed transactions, optionally following new ones as the ledger advances.
+   * The returned stream exposes a checkpoint after each transaction to resume from later.
+   * @param options Options of the stream.
+   * @returns A TransactionStream to iterate over with `for await`.
+   * @throws InvalidLedgerStateError if tail mode is requested on a view pinned to a ledger state,
+   * which never sees new transactions.
+   */
+  streamTransactions(options?: TransactionStreamOptions): TransactionStream {
+    if (options?.tail && this._atStateVersion !== undefined) {
+      throw new InvalidLedgerStateError(
+        `${this._atStateVersion}`,
+        "a pinned view cannot tail new transactions",
+      );
+    }
+    return new TransactionStream(
+      (fromStateVersion, cursor) =>
+        this.transactionStream(
+          fromStateVersion,
+          options?.receiptStateChanges,
+          cursor,
+          options?.entityFilter,
+        ),
+      options,
+    );
+  }
+
+  /**
+   * Previews a manifest against the current ledger state without committing it.
+   * @param manifest Transaction manifest to preview.
+   * @param options Preview options.
+   * @returns A promise resolving to the outcome, fees, balance changes and created entities of the transaction.
+   */
+  async previewManifest(
+    manifest: TransactionManifest,
+    options?: PreviewOptions,
+  ): Promise<TransactionPreview> {
+    const manifestString =
+      manifest.instructions.kind === "String"
+        ? manifest.instructions.value
+        : await this.instructionsToString(manifest.instructions);
+    const currentEpoch = await this.getCurrentEpoch();
+
+    const resp = await this.withRetry(
+      "previewManifest",
+      async () => {
+        return await this._api.transaction.innerClient.transactionPreview({
+          transactionPreviewRequest: {
+            manifest: manifestString,
+            blobs_hex: manifest.blobs.map((blob) =>
+              Convert.Uint8Array.toHexString(blob),
+            ),
+            start_epoch_inclusive: currentEpoch,
+            end_epoch_exclusive: currentEpoch + 10,
+            nonce: generateRandomNonce(),
+            signer_public_keys: (options?.signerPublicKeys || []).map(
+              toGatewayPublicKey,
+            ),
+            notary_public_key: options?.notaryPublicKey
+              ? toGatewayPublicKey(options.notaryPublicKey)
+              : undefined,
+            notary_is_signatory: options?.notaryIsSignatory,
+            tip_percentage: options?.tipPercentage,
+            flags: {
+              use_free_credit: options?.useFreeCredit !== false,
+              assume_all_signature_proofs: options?.assumeAllSignatureProofs,
+              skip_epoch_check: false,
+            },
+          },
+        });
+      },
+      "Could not preview transaction",
+    );
+
+    return parseTransactionPreview(resp);
+  }
+
   /**
    * Submits a string manifest to the ledger.
    * @param manifestString Transaction manifest in string format to submit.
    * @param networkId Network where to submit.
-   * @param privateKey Private Key of the submitting account.
+   * @param privateKey Private Key or Signer of the submitting account.
+   * @param options Submission options: signers, notary, transaction header and tracking.
+   * @param blobs Blobs referenced by the manifest, e.g. the code of a package to publish.
    */
   async submitRawManifest(
     manifestString: string,
     networkId: number,
-    privateKey: PrivateKey,
-  ): Promise<CommittedTransactionInfo> {
+    privateKey: PrivateKey | Signer,
+    options?: SubmitManifestOptions,
+    blobs?: Uint8Array[],
+  ): Promise<TransactionReceipt> {
     const manifest: TransactionManifest = {
       instructions: { kind: "String", value: manifestString },
-      blobs: [],
+      blobs: blobs ? blobs : [],
     };
-    return await this.submitManifest(manifest, networkId, privateKey);
+    return await this.submitManifest(manifest, networkId, privateKey, options);
   }
 
   /**
-   * Submits a manifest to the ledger.
+   * Submits a manifest to the ledger and waits for the transaction to be committed.
    * @param manifest Transaction manifest to submit.
    * @param networkId Network where to submit.
-   * @param privateKey Private Key of the submitting account.
+   * @param privateKey Private Key or Signer of the submitting account. Notarizes the transaction unless another notary is given.
+   * @param options Submission options: signers, notary, transaction header and tracking.
+   * @returns A promise resolving to the receipt of the committed transaction, successful or not.
+   * @throws TransactionTrackingError if the transaction is rejected or expires before being committed.
    */
   async submitManifest(
     manifest: TransactionManifest,
     networkId: number,
-    privateKey: PrivateKey,
-  ): Promise<CommittedTransactionInfo> {
-    const currentEpoch = await this.getCurrentEpoch();
+    privateKey: PrivateKey | Signer,
+    options?: SubmitManifestOptions,
+  ): Promise<TransactionReceipt> {
+    const tracker = await this.sendManifest(
+      manifest,
+      networkId,
+      privateKey,
+      options,
+    );
+    const outcome = await tracker.result();
+    if (!outcome.receipt) {
+      throw new TransactionTrackingError(outcome);
+    }
+    return outcome.receipt;
+  }
+
+  /**
+   * Submits a manifest to the ledger without waiting for its outcome.
+   * @param manifest Transaction manifest to submit.
+   * @param networkId Network where to submit.
+   * @param privateKey Private Key or Signer of the submitting account. Notarizes the transaction unless another notary is given.
+   * @param options Submission options: signers, notary, transaction header and tracking.
+   * @returns A promise resolving to a tracker of the submitted transaction, once the Gateway accepted it.
+   * Register listeners on the tracker, then call its `result()` method to start tracking.
+   */
+  async sendManifest(
+    manifest: TransactionManifest,
+    networkId: number,
+    privateKey: PrivateKey | Signer,
+    options?: SubmitManifestOptions,
+  ): Promise<TransactionTracker> {
+    const notaryKey = options?.notary ? options.notary : privateKey;
+    const notaryIsSignatory =
+      options?.notaryIsSignatory !== undefined
+        ? options.notaryIsSignatory
+        : notaryKey === privateKey;
+    const notary = toSigner(notaryKey);
+    const notaryPublicKey = await notary.publicKey();
+    const signers = (notaryKey === privateKey ? [] : [privateKey])
+      .concat(options?.signers || [])
+      .map(toSigner);
+    const tipPercentage = options?.tipPercentage ? options.tipPercentage : 0;
+
+    if (options?.autoLockFee) {
+      manifest = await this.withEstimatedLockFee(
+        manifest,
+        networkId,
+        {
+          signerPublicKeys: await Promise.all(
+            signers.map((signer) => signer.publicKey()),
+          ),
+          notaryPublicKey: notaryPublicKey,
+          notaryIsSignatory: notaryIsSignatory,
+          tipPercentage: tipPercentage,
+        },
+        options.autoLockFee.account,
+        options.autoLockFee.margin,
+      );
+    }
+
+    const startEpoch =
+      options?.startEpoch !== undefined
+        ? options.startEpoch
+        : await this.getCurrentEpoch();
+    const endEpoch =
+      options?.endEpoch !== undefined
+        ? options.endEpoch
+        : startEpoch + (options?.epochWindow ? options.epochWindow : 10);
 
     const notarizedTransaction = await TransactionBuilder.new().then(
-      (builder) =>
-        builder
+      (builder) => {
+        let step = builder
           .header({
             networkId: networkId,
-            startEpochInclusive: currentEpoch,
-            endEpochExclusive: currentEpoch + 10,
-            nonce: generateRandomNonce(),
-            notaryPublicKey: privateKey.publicKey(),
-            notaryIsSignatory: true,
-            tipPercentage: 0,
+            startEpochInclusive: startEpoch,
+            endEpochExclusive: endEpoch,
+            nonce:
+              options?.nonce !== undefined
+                ? options.nonce
+                : generateRandomNonce(),
+            notaryPublicKey: notaryPublicKey,
+            notaryIsSignatory: notaryIsSignatory,
+            tipPercentage: tipPercentage,
           })
-          .manifest(manifest)
-          .sign(privateKey)
-          .notarize(privateKey),
+          .manifest(manifest);
+        signers.forEach((signer) => {
+          step = step.signAsync((hash) =>
+            signToSignatureWithPublicKey(signer, hash),
+          );
+        });
+        return step.notarizeAsync((hash) => notary.signToSignature(hash));
+      },
     );
 
     let intentHash =
@@ -227,26 +649,29 @@ export class GatewayProcessor {
 
     await this.submitTransaction(compiledTransaction, intentHash);
 
-    let transactionStatus: TransactionStatusResponse | undefined = undefined;
-    while (
-      transactionStatus === undefined ||
-      transactionStatus?.status === TransactionStatus.Pending
-    ) {
-      transactionStatus = await this.getTransactionStatus(intentHash.id);
-    }
-
-    let transactionCommit = await this.getCommittedDetails(intentHash.id);
-
-    let transaction = transactionCommit.transaction;
-    if (transaction.transaction_status != "CommittedSuccess") {
-      console.log(
-        `Transaction ${transaction.intent_hash} failed with error: ${transaction.error_message}`,
-      );
-    } else {
-      console.log(`Transaction ${transaction.intent_hash} succeeded!`);
-    }
+    const tracker = this.trackTransaction(intentHash.id, {
+      endEpochExclusive: endEpoch,
+      ...options?.tracking,
+    });
+    return tracker;
+  }
 
-    return transaction;
+  /**
+   * Follows a submitted transaction until it is committed, rejected or expired.
+   * Tracking starts with the first call to `result()` on the returned tracker.
+   * @param intentHash Intent hash of the transaction.
+   * @param options Tracking options. Pass `endEpochExclusive` for the tracking to stop once the transaction expired.
+   */
+  trackTransaction(
+    intentHash: string,
+    options?: TransactionTrackerOptions,
+  ): TransactionTracker {
+    return new TransactionTracker(
+      intentHash,
+      (hash) => this.getTransactionStatus(hash),
+      (hash) => this.getCommittedDetails(hash),
+      options,
+    );
   }
 
   /**
@@ -263,7 +688,7 @@ export class GatewayProcessor {
     do {
       let resp = await this.keyValueStoreKeys(kvsAddress, cursor);
       cursor = resp.next_cursor;
-      allKeys.concat(resp.items);
+      allKeys = allKeys.concat(resp.items);
     } while (cursor);
 
     return allKeys;
@@ -301,6 +726,29 @@ export class GatewayProcessor {
       return resp;
     }
   }
+  /**
+   * Retrieves key-value store entries decoded with codecs.
+   * If keys are not provided, retrieves all the entries of the store.
+   * @param kvsAddress Address of the key-value store.
+   * @param keyCodec Codec of the keys.
+   * @param valueCodec Codec of the values.
+   * @param keys Optional array of key items.
+   * @throws SborCodecError if an entry does not match the codecs.
+   */
+  async getTypedKeyValueStoreData<K, V>(
+    kvsAddress: string,
+    keyCodec: Codec<K>,
+    valueCodec: Codec<V>,
+    keys?: StateKeyValueStoreDataRequestKeyItem[],
+  ): Promise<{ key: K; value: V }[]> {
+    const items = await this.getKeyValueStoreData(kvsAddress, keys);
+    return items.map((item) => {
+      return {
+        key: keyCodec.decode(item.key.programmatic_json, "$.key"),
+        value: valueCodec.decode(item.value.programmatic_json, "$.value"),
+      };
+    });
+  }
 
   /**
    * Retrieves information about resources associated with specified resource addresses.
@@ -312,14 +760,15 @@ export class GatewayProcessor {
     resourceAddresses: string[],
     additionalMetadata?: string[],
   ): Promise<Map<string, ResourceInformation>> {
+    await this.checkAddresses(resourceAddresses, ["Resource"]);
     let resourceMap = new Map<string, ResourceInformation>();
     const batches = divideInBatches(resourceAddresses, 20);
-    const limit = pLimit(this._concurrencyLimit);
     await Promise.all(
       batches.map(async (batch) => {
-        const items = await limit(() => {
-          return this.limitedResourcesInformation(batch, additionalMetadata);
-        });
+        const items = await this.limitedResourcesInformation(
+          batch,
+          additionalMetadata,
+        );
         items.forEach((value, key) => {
           resourceMap.set(key, value);
         });
@@ -327,6 +776,29 @@ export class GatewayProcessor {
     );
     return resourceMap;
   }
+  /**
+   * Retrieves all the metadata of an entity, going through every page.
+   * @param address Address of the entity.
+   * @returns A promise resolving to the decoded metadata entries, by key, with their lock status.
+   */
+  async getEntityMetadata(address: string): Promise<EntityMetadata> {
+    await this.checkAddresses([address]);
+    const firstPage = await this.entityMetadataPage(
+      address,
+      undefined,
+      this.ledgerStateSelector(),
+    );
+    const items = firstPage.next_cursor
+      ? firstPage.items.concat(
+          await this.metadataPages(
+            address,
+            firstPage.next_cursor,
+            firstPage.ledger_state.state_version,
+          ),
+        )
+      : firstPage.items;
+    return toEntityMetadata(items);
+  }
 
   /**
    * Retrieves fungibles resources associated with specified component address.
@@ -335,27 +807,23 @@ export class GatewayProcessor {
   async getFungibleResourcesHeldBy(
     entity: string,
   ): Promise<FungibleResource[]> {
-    const resp = await this.entityDetails([entity]);
-    const entityState = resp.items[0];
+    const held = await this.fungibleResourcesOf(entity);
     let heldResources: FungibleResource[] = [];
 
-    let amount_map = new Map<string, number>();
+    let amount_map = new Map<string, Decimal>();
     let resources: string[] = [];
 
-    if (entityState.fungible_resources) {
-      entityState.fungible_resources.items.forEach((resource) => {
-        if (resource.aggregation_level === "Global") {
-          resources.push(resource.resource_address);
-          amount_map.set(
-            resource.resource_address,
-            parseFloat(resource.amount),
-          );
-        }
-      });
-    }
+    held.forEach((resource) => {
+      resources.push(resource.resource_address);
+      amount_map.set(resource.resource_address, Decimal.from(resource.amount));
+    });
 
     if (resources.length !== 0) {
       let parsedResources = await this.getResourcesInformation(resources);
+      const poolUnits = await this.poolUnitRedemptions(
+        parsedResources,
+        amount_map,
+      );
 
       parsedResources.forEach((resource, address) => {
         if (resource.type == "Fungible") {
@@ -366,6 +834,7 @@ export class GatewayProcessor {
             symbol: resource.information.symbol,
             icon: resource.information.icon,
             amountHeld: amount_map.get(address)!,
+            poolUnit: poolUnits.get(address),
           });
         }
       });
@@ -374,6 +843,19 @@ export class GatewayProcessor {
     return heldResources;
   }
 
+  /**
+   * Computes the underlying resources redeemable for amounts of pool units of native pools.
+   * Resources that are not pool units are left out of the result.
+   * @param amounts Amounts of pool units, by resource address.
+   * @returns A promise resolving to the value of each pool unit, by resource address.
+   */
+  async getPoolUnitRedemptions(
+    amounts: Map<string, Decimal>,
+  ): Promise<Map<string, PoolUnitRedemption>> {
+    const resources = await this.getResourcesInformation([...amounts.keys()]);
+    return this.poolUnitRedemptions(resources, amounts);
+  }
+
   /**
    * Retrieves non-fungibles resources associated with specified entity.
    * @param entity Address of the entity.
@@ -395,7 +877,6 @@ export class GatewayProcessor {
 
     // Fetch resource address and ids
     let owned = new Map<string, string[]>();
-    const limit = pLimit(this._concurrencyLimit);
     await Promise.all(
       items.map(async (item) => {
         if (item.aggregation_level == "Vault") {
@@ -410,19 +891,17 @@ export class GatewayProcessor {
 
             let cursor = vault.next_cursor;
             while (cursor) {
-              await limit(async () => {
-                let resp = await this.getEntityNFTsInVault(
-                  entity,
-                  vault.vault_address,
-                  item.resource_address,
-                  cursor,
-                  ledger_state,
-                );
-
-                cursor = resp.next_cursor;
-                resp.items.forEach((nft_id) => {
-                  resourceOwned.push(nft_id);
-                });
+              let resp = await this.getEntityNFTsInVault(
+                entity,
+                vault.vault_address,
+                item.resource_address,
+                cursor,
+                ledger_state,
+              );
+
+              cursor = resp.next_cursor;
+              resp.items.forEach((nft_id) => {
+                resourceOwned.push(nft_id);
               });
             }
             owned.set(item.resource_address, resourceOwned);
@@ -451,6 +930,62 @@ export class GatewayProcessor {
     return resources;
   }
 
+  /**
+   * Retrieves the fungible and non-fungible resources held by an entity.
+   * @param entity Address of the entity.
+   */
+  async getHoldings(entity: string): Promise<Holdings> {
+    return {
+      fungibles: await this.getFungibleResourcesHeldBy(entity),
+      nonFungibles: await this.getNonFungibleResourcesHeldBy(entity),
+    };
+  }
+
+  /**
+   * Retrieves fungible resources held by an entity at a point of the ledger.
+   * @param entity Address of the entity.
+   * @param state State version, or timestamp resolved to the state version at that time.
+   */
+  async getFungibleResourcesHeldAt(
+    entity: string,
+    state: number | Date | string,
+  ): Promise<FungibleResource[]> {
+    const snapshot = await this.atLedgerState(state);
+    return snapshot.getFungibleResourcesHeldBy(entity);
+  }
+
+  /**
+   * Retrieves non-fungible resources held by an entity at a point of the ledger.
+   * @param entity Address of the entity.
+   * @param state State version, or timestamp resolved to the state version at that time.
+   */
+  async getNonFungibleResourcesHeldAt(
+    entity: string,
+    state: number | Date | string,
+  ): Promise<NonFungibleResource[]> {
+    const snapshot = await this.atLedgerState(state);
+    return snapshot.getNonFungibleResourcesHeldBy(entity);
+  }
+
+  /**
+   * Computes the changes of the holdings of an entity between two points of the ledger.
+   * @param entity Address of the entity.
+   * @param from State version or timestamp of the first point.
+   * @param to State version or timestamp of the second point. Default is the current state.
+   */
+  async getHoldingsDiff(
+    entity: string,
+    from: number | Date | string,
+    to?: number | Date | string,
+  ): Promise<HoldingsDiff> {
+    const before = await (await this.atLedgerState(from)).getHoldings(entity);
+    const after =
+      to !== undefined
+        ? await (await this.atLedgerState(to)).getHoldings(entity)
+        : await this.getHoldings(entity);
+    return diffHoldings(before, after);
+  }
+
   /**
    * Retrieves non-fungibles ids associated with specified resources and entity.
    * @param entity Address of the entity.
@@ -460,6 +995,8 @@ export class GatewayProcessor {
     entity: string,
     nonFungibleResource: string,
   ): Promise<string[]> {
+    await this.checkAddresses([entity]);
+    await this.checkAddresses([nonFungibleResource], ["Resource"]);
     const ledgerState = await this.ledgerState();
 
     // Find collection
@@ -517,6 +1054,7 @@ export class GatewayProcessor {
     resourceAddress: string,
     atLedgerState?: number,
   ): Promise<string[]> {
+    await this.checkAddresses([resourceAddress], ["Resource"]);
     const state_version = atLedgerState
       ? atLedgerState
       : await this.ledgerState();
@@ -547,13 +1085,15 @@ export class GatewayProcessor {
     ids: string[],
     atLedgerState?: number,
   ): Promise<NonFungibleItem[]> {
+    await this.checkAddresses([resourceAddress], ["Resource"]);
     const nftBatches = divideInBatches(ids, 100);
-    const limit = pLimit(this._concurrencyLimit);
     return (
       await Promise.all(
         nftBatches.map(async (batch) => {
-          let itemsData = await limit(async () =>
-            this.getNonFungibleData(resourceAddress, batch, atLedgerState),
+          let itemsData = await this.getNonFungibleData(
+            resourceAddress,
+            batch,
+            atLedgerState ? atLedgerState : this._atStateVersion,
           );
           return itemsData.map((item) => {
             let description: string | undefined;
@@ -590,16 +1130,71 @@ export class GatewayProcessor {
             return {
               description: description,
               id: item.non_fungible_id,
-              image_url: imageUrl,
+              imageUrl: imageUrl,
               name: name,
-              non_fungible_data:
+              nonFungibleData:
                 nonFungibleData.size > 0 ? nonFungibleData : undefined,
+              structuredData: item.data
+                ? decodeSbor(item.data.programmatic_json)
+                : undefined,
             };
           });
         }),
       )
     ).flat();
   }
+  /**
+   * Retrieves the data of non-fungible items decoded with a codec.
+   * @param resourceAddress Address of the non-fungible items.
+   * @param ids Ids of the non-fungible items.
+   * @param codec Codec of the non-fungible data.
+   * @returns A promise resolving to a map from ids to decoded data. Burned items are left out.
+   * @throws SborCodecError if the data of an item does not match the codec.
+   */
+  async getTypedNonFungibleData<T>(
+    resourceAddress: string,
+    ids: string[],
+    codec: Codec<T>,
+  ): Promise<Map<string, T>> {
+    let dataMap = new Map<string, T>();
+    for (const batch of divideInBatches(ids, 100)) {
+      const items = await this.getNonFungibleData(
+        resourceAddress,
+        batch,
+        this._atStateVersion,
+      );
+      items.forEach((item) => {
+        if (item.data) {
+          dataMap.set(
+            item.non_fungible_id,
+            codec.decode(item.data.programmatic_json, item.non_fungible_id),
+          );
+        }
+      });
+    }
+    return dataMap;
+  }
+
+  /**
+   * Retrieves the state of a component decoded with a codec.
+   * @param componentAddress Address of the component.
+   * @param codec Codec of the component state.
+   * @throws SborCodecError if the state does not match the codec.
+   */
+  async getComponentState<T>(
+    componentAddress: string,
+    codec: Codec<T>,
+  ): Promise<T> {
+    const resp = await this.entityDetails([componentAddress]);
+    const details = resp.items[0]?.details;
+    if (details?.type !== "Component" || !details.state) {
+      throw new Error(`${componentAddress} has no component state`);
+    }
+    return codec.decode(
+      details.state as ProgrammaticScryptoSborValue,
+      componentAddress,
+    );
+  }
 
   /**
    * Retrieves a transaction committed details.
@@ -608,211 +1203,1027 @@ export class GatewayProcessor {
   async getCommittedDetails(
     intentHash: string,
   ): Promise<TransactionCommittedDetailsResponse> {
-    return withMaxLoops(
+    return this.withRetry(
+      "getCommittedDetails",
       async () => {
         return await this._api.transaction.getCommittedDetails(intentHash);
       },
       "Could not query committed details",
-      this._maxLoops,
     );
   }
+  /**
+   * Retrieves the receipt of a committed transaction: created entities, fees, balance changes and events.
+   * @param intentHash Intent hash of the committed transaction.
+   */
+  async getTransactionReceipt(intentHash: string): Promise<TransactionReceipt> {
+    const details = await this.getCommittedDetails(intentHash);
+    return parseTransactionReceipt(details.transaction);
+  }
 
   /**
    * Retrieves the owners associated with specified resource address and ids.
    * @param resourceAddress Address of the non-fungible items.
    * @param ids Ids of the non-fungible items.
+   * @param atLedgerState Optional ledger state when to make the query. Burned items, and items
+   * not in a vault, are left out.
    */
-  async getNftOwners(resourceAddress: string, ids: string[]) {
-    const nftBatches = divideInBatches(ids, 100);
-    const limit = pLimit(this._concurrencyLimit);
-    let returnMap = new Map<string, string>();
-
-    await Promise.all(
-      nftBatches.map(async (batch) => {
-        let nft_ids = await limit(async () =>
-          this.getEntityLocation(resourceAddress, batch),
-        );
-        nft_ids.map((item) => {
-          returnMap.set(
-            item.non_fungible_id,
-            item.owning_vault_global_ancestor_address!,
-          );
-        });
-      }),
+  async getNftOwners(
+    resourceAddress: string,
+    ids: string[],
+    atLedgerState?: number,
+  ): Promise<Map<string, string>> {
+    const stateVersion =
+      atLedgerState !== undefined ? atLedgerState : await this.ledgerState();
+    const locations = await this.nonFungibleLocations(
+      resourceAddress,
+      ids,
+      stateVersion,
     );
 
+    let returnMap = new Map<string, string>();
+    locations.forEach((item) => {
+      if (item.owning_vault_global_ancestor_address) {
+        returnMap.set(
+          item.non_fungible_id,
+          item.owning_vault_global_ancestor_address,
+        );
+      }
+    });
     return returnMap;
   }
 
   /**
-   *
+   * Takes a snapshot of the holders of every item of a non-fungible collection.
+   * @param resourceAddress Address of the non-fungible resource.
+   * @param options State of the snapshot and holders to leave out.
    */
-  async xrdAddress(): Promise<string> {
-    return this._api.status.getNetworkConfiguration().then((config) => {
-      return config.well_known_addresses.xrd;
+  async snapshotCollectionHolders(
+    resourceAddress: string,
+    options?: SnapshotOptions,
+  ): Promise<CollectionHoldersSnapshot> {
+    await this.checkAddresses([resourceAddress], ["Resource"]);
+    const stateVersion =
+      options?.atLedgerState !== undefined
+        ? await this.resolveStateVersion(options.atLedgerState)
+        : await this.ledgerState();
+    const ids = await this.getAllNonFungibleIds(resourceAddress, stateVersion);
+    const locations = await this.nonFungibleLocations(
+      resourceAddress,
+      ids,
+      stateVersion,
+    );
+
+    let holders = new Map<string, string[]>();
+    let excludedHolders = new Map<string, string[]>();
+    let unresolvedIds: string[] = [];
+    locations.forEach((item) => {
+      const holder = item.owning_vault_global_ancestor_address;
+      if (item.is_burned || !holder) {
+        unresolvedIds.push(item.non_fungible_id);
+        return;
+      }
+      const target =
+        options?.excludeComponents && !isAccountAddress(holder)
+          ? excludedHolders
+          : holders;
+      target.set(holder, [...(target.get(holder) || []), item.non_fungible_id]);
     });
+
+    return {
+      resourceAddress: resourceAddress,
+      stateVersion: stateVersion,
+      holders: holders,
+      holderCount: holders.size,
+      idCount: [...holders.values()].reduce(
+        (count, ids) => count + ids.length,
+        0,
+      ),
+      unresolvedIds: unresolvedIds,
+      excludedHolders: excludedHolders,
+    };
   }
 
   /**
-   * Takes up to 20 resource addresses as input
+   * Takes a snapshot of the holders of a fungible resource, with their balances. The holders
+   * endpoint only serves the latest state: balances updated after the snapshot state version are
+   * read again at that version, and holders that emptied their vaults since are not listed, in
+   * which case a pinned snapshot is flagged as incomplete.
+   * @param resourceAddress Address of the fungible resource.
+   * @param options State of the snapshot and holders to leave out.
    */
-  private async limitedResourcesInformation(
-    resourceAddresses: string[],
-    additionalMetadata?: string[],
-  ): Promise<Map<string, ResourceInformation>> {
-    let resourceMap = new Map<string, ResourceInformation>();
-
-    let resp = await this.entityDetails(resourceAddresses);
-    resp.items.forEach((item) => {
-      if (item.details) {
-        let name: string | undefined;
-        let description: string | undefined;
-        let icon: string | undefined;
-        let symbol: string | undefined;
-        let otherMetadata: Map<string, EntityMetadataItemValue> = new Map<
-          string,
-          EntityMetadataItemValue
-        >();
+  async getFungibleHolders(
+    resourceAddress: string,
+    options?: SnapshotOptions,
+  ): Promise<FungibleHoldersSnapshot> {
+    await this.checkAddresses([resourceAddress], ["Resource"]);
+    const stateVersion =
+      options?.atLedgerState !== undefined
+        ? await this.resolveStateVersion(options.atLedgerState)
+        : await this.ledgerState();
+
+    let items: ResourceHoldersCollectionItem[] = [];
+    let cursor: string | null | undefined = undefined;
+    do {
+      const resp: ResourceHoldersResponse = await this.resourceHoldersPage(
+        resourceAddress,
+        cursor,
+      );
+      items = items.concat(resp.items);
+      cursor = resp.next_cursor;
+    } while (cursor);
 
-        item.metadata.items.forEach((metadata) => {
-          switch (metadata.key) {
-            case "name": {
-              if (metadata.value.programmatic_json.kind === "String") {
-                name = metadata.value.programmatic_json.value;
-              } else if (metadata.value.programmatic_json.kind === "Enum") {
-                let field = metadata.value.programmatic_json.fields[0]!;
-                if (field.kind === "String") {
-                  name = field.value.toString();
-                }
-              }
-              break;
-            }
-            case "description": {
-              if (metadata.value.programmatic_json.kind === "String") {
-                description = metadata.value.programmatic_json.value;
-              } else if (metadata.value.programmatic_json.kind === "Enum") {
-                let field = metadata.value.programmatic_json.fields[0]!;
-                if (field.kind === "String") {
-                  description = field.value.toString();
-                }
-              }
-              break;
-            }
-            case "icon_url": {
-              if (metadata.value.programmatic_json.kind === "Enum") {
-                let field = metadata.value.programmatic_json.fields[0]!;
-                if (field.kind === "String") {
-                  icon = field.value.toString();
-                }
-              } else if (metadata.value.programmatic_json.kind === "String") {
-                icon = metadata.value.programmatic_json.value;
-              }
-              break;
-            }
-            case "symbol": {
-              if (metadata.value.programmatic_json.kind === "String") {
-                symbol = metadata.value.programmatic_json.value;
-              } else if (metadata.value.programmatic_json.kind === "Enum") {
-                let field = metadata.value.programmatic_json.fields[0]!;
-                if (field.kind === "String") {
-                  symbol = field.value.toString();
-                }
-              }
-              break;
-            }
-            default: {
-              if (
-                additionalMetadata &&
-                additionalMetadata.includes(metadata.key)
-              ) {
-                otherMetadata.set(metadata.key, metadata.value);
-              }
-            }
+    // Holders can only be missing from a snapshot pinned before the state of the holder pages
+    const pinned =
+      options?.atLedgerState !== undefined ||
+      this._atStateVersion !== undefined;
+    const incomplete =
+      pinned && stateVersion < (await this.currentStateVersion());
+
+    let balances = new Map<string, Decimal>();
+    let updatedSince: string[] = [];
+    items.forEach((item) => {
+      if (item.type !== "FungibleResource") {
+        return;
+      }
+      if (item.last_updated_at_state_version > stateVersion) {
+        updatedSince.push(item.holder_address);
+      } else {
+        balances.set(item.holder_address, Decimal.from(item.amount));
+      }
+    });
+    const balancesAt = await this.fungibleBalancesAt(
+      updatedSince,
+      resourceAddress,
+      stateVersion,
+    );
+    balancesAt.forEach((balance, holder) => balances.set(holder, balance));
+    balances.forEach((balance, holder) => {
+      if (!balance.gt(0)) {
+        balances.delete(holder);
+      }
+    });
+
+    let holders = new Map<string, Decimal>();
+    let excludedHolders = new Map<string, Decimal>();
+    balances.forEach((balance, holder) => {
+      if (options?.excludeComponents && !isAccountAddress(holder)) {
+        excludedHolders.set(holder, balance);
+      } else {
+        holders.set(holder, balance);
+      }
+    });
+
+    return {
+      resourceAddress: resourceAddress,
+      stateVersion: stateVersion,
+      holders: holders,
+      holderCount: holders.size,
+      totalHeld: [...holders.values()].reduce(
+        (total, balance) => total.plus(balance),
+        Decimal.ZERO,
+      ),
+      excludedHolders: excludedHolders,
+      incomplete: incomplete,
+    };
+  }
+
+  /**
+   * Shares a reward pool between holders, rounding amounts to the divisibility of the reward resource.
+   * @param holders Balance of each holder, by address.
+   * @param rewardResource Address of the fungible resource to distribute.
+   * @param options Reward pool, rule and exclusions.
+   */
+  async planDistribution(
+    holders: Map<string, Decimal>,
+    rewardResource: string,
+    options: Omit<DistributionOptions, "divisibility">,
+  ): Promise<Distribution> {
+    const resource = (await this.getResourcesInformation([rewardResource])).get(
+      rewardResource,
+    );
+    if (resource?.type !== "Fungible") {
+      throw new Error(`${rewardResource} is not a fungible resource`);
+    }
+    return calculateDistribution(holders, {
+      ...options,
+      divisibility: resource.information.divisibility,
+    });
+  }
+
+  /**
+   * Retrieves all the validators with their stake, fee, uptime and registration status.
+   */
+  async getValidators(): Promise<Validator[]> {
+    let items: ValidatorCollectionItem[] = [];
+    let atLedgerState = this.ledgerStateSelector();
+    let cursor: string | null | undefined = undefined;
+    do {
+      const resp: StateValidatorsListResponse = await this.validatorsPage(
+        cursor,
+        atLedgerState,
+      );
+      items = items.concat(resp.validators.items);
+      cursor = resp.validators.next_cursor;
+      atLedgerState = { state_version: resp.ledger_state.state_version };
+    } while (cursor);
+
+    let uptimes = new Map<string, number>();
+    for (const batch of divideInBatches(
+      items.map((item) => item.address),
+      200,
+    )) {
+      const resp = await this.validatorsUptime(batch, atLedgerState);
+      resp.validators.items.forEach((uptime) => {
+        const made = uptime.proposals_made || 0;
+        const expected = made + (uptime.proposals_missed || 0);
+        if (expected > 0) {
+          uptimes.set(uptime.address, made / expected);
+        }
+      });
+    }
+
+    return items.map((item) => parseValidator(item, uptimes.get(item.address)));
+  }
+
+  /**
+   * Retrieves the Liquid Stake Units held by an account, with their value in XRD.
+   * @param account Address of the account.
+   * @param validators Validators to look for. All validators are fetched when not provided.
+   */
+  async getStakeUnitsHeldBy(
+    account: string,
+    validators?: Validator[],
+  ): Promise<StakeUnitHolding[]> {
+    const allValidators = validators ? validators : await this.getValidators();
+    const byStakeUnit = new Map(
+      allValidators.map((validator) => [validator.stakeUnitAddress, validator]),
+    );
+
+    const held = (await this.fungibleResourcesOf(account)).filter((item) =>
+      byStakeUnit.has(item.resource_address),
+    );
+    if (held.length === 0) {
+      return [];
+    }
+
+    let supplies = new Map<string, Decimal>();
+    for (const batch of divideInBatches(
+      held.map((item) => item.resource_address),
+      20,
+    )) {
+      const details = await this.entityDetails(batch);
+      details.items.forEach((item) => {
+        if (item.details?.type === "FungibleResource") {
+          supplies.set(item.address, Decimal.from(item.details.total_supply));
+        }
+      });
+    }
+
+    return held.map((item) => {
+      const validator = byStakeUnit.get(item.resource_address)!;
+      const amount = Decimal.from(item.amount);
+      const supply = supplies.get(item.resource_address);
+      return {
+        validator: validator.address,
+        stakeUnitAddress: item.resource_address,
+        amount: amount,
+        xrdValue:
+          supply && supply.gt(0)
+            ? amount.mulDiv(validator.stake, supply)
+            : Decimal.ZERO,
+      };
+    });
+  }
+
+  /**
+   * Retrieves the unstake claim NFTs held by an account.
+   * @param account Address of the account.
+   * @param validators Validators to look for. All validators are fetched when not provided.
+   */
+  async getUnstakeClaimsHeldBy(
+    account: string,
+    validators?: Validator[],
+  ): Promise<UnstakeClaim[]> {
+    const allValidators = validators ? validators : await this.getValidators();
+    const byClaimNft = new Map(
+      allValidators.map((validator) => [validator.claimNftAddress, validator]),
+    );
+
+    await this.checkAddresses([account]);
+    const ledgerState = await this.ledgerState();
+    let epoch = 0;
+    let heldResources: string[] = [];
+    let cursor: string | null | undefined = undefined;
+    do {
+      const resp: StateEntityNonFungiblesPageResponse =
+        await this.getEntityCollections(
+          account,
+          cursor ? cursor : undefined,
+          ledgerState,
+        );
+      epoch = resp.ledger_state.epoch;
+      resp.items.forEach((item) => {
+        if (byClaimNft.has(item.resource_address)) {
+          heldResources.push(item.resource_address);
+        }
+      });
+      cursor = resp.next_cursor;
+    } while (cursor);
+
+    let claims: UnstakeClaim[] = [];
+    for (const claimNftAddress of heldResources) {
+      const ids = await this.getNonFungibleIdsHeldBy(account, claimNftAddress);
+      const data = await this.getTypedNonFungibleData(
+        claimNftAddress,
+        ids,
+        unstakeDataCodec,
+      );
+      data.forEach((claim, id) => {
+        const claimEpoch = claim.claim_epoch.toNumber();
+        claims.push({
+          validator: byClaimNft.get(claimNftAddress)!.address,
+          claimNftAddress: claimNftAddress,
+          id: id,
+          xrdAmount: claim.claim_amount,
+          claimEpoch: claimEpoch,
+          claimable: epoch >= claimEpoch,
+        });
+      });
+    }
+    return claims;
+  }
+
+  /**
+   * Returns the network of the Gateway, read once from its configuration. Networks missing from
+   * the registry are registered with the HRP suffix used by the Gateway.
+   */
+  async networkContext(): Promise<NetworkContext> {
+    if (!this._network) {
+      this._network = this.withRetry(
+        "networkContext",
+        async () => {
+          return await this._api.status.getNetworkConfiguration();
+        },
+        "Could not get network configuration",
+      ).then((config) => {
+        try {
+          return NetworkContext.get(config.network_id);
+        } catch (e) {
+          return NetworkContext.register({
+            networkId: config.network_id,
+            hrpSuffix: decodeAddress(config.well_known_addresses.xrd).hrpSuffix,
+          });
+        }
+      });
+      // Read the configuration again on the next call if this one failed
+      this._network.catch(() => {
+        this._network = undefined;
+      });
+    }
+    return this._network;
+  }
+
+  /**
+   * Returns the address of XRD on the network of the Gateway.
+   */
+  async xrdAddress(): Promise<string> {
+    const network = await this.networkContext();
+    return (await network.wellKnownAddresses()).xrd;
+  }
+
+  /**
+   * Takes up to 20 resource addresses as input
+   */
+  private async limitedResourcesInformation(
+    resourceAddresses: string[],
+    additionalMetadata?: string[],
+  ): Promise<Map<string, ResourceInformation>> {
+    let resourceMap = new Map<string, ResourceInformation>();
+
+    let resp = await this.entityDetails(resourceAddresses);
+    for (const item of resp.items) {
+      if (item.details) {
+        const items = item.metadata.next_cursor
+          ? item.metadata.items.concat(
+              await this.metadataPages(
+                item.address,
+                item.metadata.next_cursor,
+                resp.ledger_state.state_version,
+              ),
+            )
+          : item.metadata.items;
+        const metadata = toEntityMetadata(items);
+        const name = metadataString(metadata, "name");
+        const description = metadataString(metadata, "description");
+        const icon = metadataString(metadata, "icon_url");
+        const symbol = metadataString(metadata, "symbol");
+        let otherMetadata: Map<string, EntityMetadataItemValue> = new Map<
+          string,
+          EntityMetadataItemValue
+        >();
+        items.forEach((metadataItem) => {
+          if (
+            additionalMetadata &&
+            additionalMetadata.includes(metadataItem.key)
+          ) {
+            otherMetadata.set(metadataItem.key, metadataItem.value);
           }
         });
 
-        if (name) {
-          switch (item.details.type) {
-            case "NonFungibleResource": {
-              resourceMap.set(item.address, {
-                type: "NonFungible",
-                information: {
-                  name: name,
-                  address: item.address,
-                  description: description,
-                  icon: icon,
-                  otherMetadata: otherMetadata,
-                },
-              });
-              break;
-            }
-            case "FungibleResource": {
-              resourceMap.set(item.address, {
-                type: "Fungible",
-                information: {
-                  name: name,
-                  address: item.address,
-                  description: description,
-                  icon: icon,
-                  symbol: symbol,
-                  otherMetadata: otherMetadata,
-                },
-              });
-              break;
-            }
+        switch (item.details.type) {
+          case "NonFungibleResource": {
+            resourceMap.set(item.address, {
+              type: "NonFungible",
+              information: {
+                name: name ?? "",
+                address: item.address,
+                description: description,
+                icon: icon,
+                otherMetadata: otherMetadata,
+                metadata: metadata,
+                totalSupply: Decimal.from(item.details.total_supply),
+                idType: item.details.non_fungible_id_type,
+                mutableDataFields:
+                  item.details.non_fungible_data_mutable_fields,
+                behaviours: parseResourceBehaviours(
+                  item.details.role_assignments,
+                ),
+              },
+            });
+            break;
+          }
+          case "FungibleResource": {
+            resourceMap.set(item.address, {
+              type: "Fungible",
+              information: {
+                name: name ?? "",
+                address: item.address,
+                description: description,
+                icon: icon,
+                symbol: symbol,
+                otherMetadata: otherMetadata,
+                metadata: metadata,
+                totalSupply: Decimal.from(item.details.total_supply),
+                divisibility: item.details.divisibility,
+                behaviours: parseResourceBehaviours(
+                  item.details.role_assignments,
+                ),
+              },
+            });
+            break;
           }
         }
       }
-    });
+    }
 
     return resourceMap;
   }
 
+  /**
+   * Computes the redemptions of the pool units among resources, detected by their `pool` metadata.
+   */
+  private async poolUnitRedemptions(
+    resources: Map<string, ResourceInformation>,
+    amounts: Map<string, Decimal>,
+  ): Promise<Map<string, PoolUnitRedemption>> {
+    // Pool units point to their pool with the `pool` metadata
+    let poolOf = new Map<string, string>();
+    resources.forEach((resource, address) => {
+      const pool = resource.information.metadata?.get("pool");
+      if (
+        resource.type === "Fungible" &&
+        pool?.value.type === "GlobalAddress"
+      ) {
+        poolOf.set(address, pool.value.value);
+      }
+    });
+
+    let pools = new Map<string, StateEntityDetailsResponseItem>();
+    for (const batch of divideInBatches([...new Set(poolOf.values())], 20)) {
+      const resp = await this.entityDetails(batch);
+      resp.items.forEach((item) => pools.set(item.address, item));
+    }
+
+    let redemptions = new Map<string, PoolUnitRedemption>();
+    poolOf.forEach((poolAddress, address) => {
+      const pool = pools.get(poolAddress);
+      const resource = resources.get(address)!;
+      const redemption = pool
+        ? parsePoolUnitRedemption(
+            pool,
+            address,
+            amounts.get(address)!,
+            resource.information.totalSupply,
+          )
+        : undefined;
+      if (redemption) {
+        redemptions.set(address, redemption);
+      }
+    });
+    return redemptions;
+  }
+
+  /**
+   * Previews a manifest and prepends a lock_fee instruction covering the estimated fee plus a margin.
+   */
+  private async withEstimatedLockFee(
+    manifest: TransactionManifest,
+    networkId: number,
+    previewOptions: PreviewOptions,
+    account: string,
+    margin?: number,
+  ): Promise<TransactionManifest> {
+    const preview = await this.previewManifest(manifest, previewOptions);
+    if (!preview.success) {
+      throw new TransactionPreviewError(preview);
+    }
+
+    const fee = preview.fees.total.times(
+      1 + (margin !== undefined ? margin : 0.2),
+    );
+    const instructions =
+      manifest.instructions.kind === "String"
+        ? manifest.instructions.value
+        : await this.instructionsToString(manifest.instructions, networkId);
+    return {
+      instructions: {
+        kind: "String",
+        value:
+          new StringManifestBuilder().lockFee(account, fee).build() +
+          "\n" +
+          instructions,
+      },
+      blobs: manifest.blobs,
+    };
+  }
+
+  /**
+   * Converts parsed instructions to their string representation.
+   * @param instructions Instructions to convert.
+   * @param networkId Network of the instructions. Defaults to the network of the Gateway.
+   */
+  private async instructionsToString(
+    instructions: Instructions,
+    networkId?: number,
+  ): Promise<string> {
+    const network =
+      networkId !== undefined
+        ? networkId
+        : (await this.networkContext()).networkId();
+    const converted = await RadixEngineToolkit.Instructions.convert(
+      instructions,
+      network,
+      "String",
+    );
+    return converted.value as string;
+  }
+
+  private entityDetailsLoader(): EntityDetailsLoader {
+    return new EntityDetailsLoader((addresses, aggregationLevel, state) =>
+      this.fetchEntityDetails(addresses, aggregationLevel, state),
+    );
+  }
+
+  private async currentStateVersion(): Promise<number> {
+    return this.withRetry(
+      "ledgerState",
+      async () => {
+        let status = await this._api.status.getCurrent();
+        return status.ledger_state.state_version;
+      },
+      "Could not fetch current ledger state",
+    );
+  }
+
+  private async fetchEntityDetails(
+    addresses: string[],
+    aggregationLevel: ResourceAggregationLevel,
+    atStateVersion: number | undefined,
+  ): Promise<StateEntityDetailsResponse> {
+    return this.withRetry(
+      "entityDetails",
+      async () => {
+        return await this._api.state.innerClient.stateEntityDetails({
+          stateEntityDetailsRequest: {
+            addresses: addresses,
+            aggregation_level: aggregationLevel,
+            at_ledger_state:
+              atStateVersion !== undefined
+                ? { state_version: atStateVersion }
+                : undefined,
+            opt_ins: {
+              ancestor_identities: true,
+              component_royalty_vault_balance: true,
+              package_royalty_vault_balance: true,
+            },
+          },
+        });
+      },
+      `Could not query entity details for array of ${addresses.length} items`,
+    );
+  }
+
+  /**
+   * Creates a copy of this processor sharing its client, scheduler and settings.
+   */
+  private view(): GatewayProcessor {
+    const view = new GatewayProcessor(
+      this._api,
+      undefined,
+      undefined,
+      this._retryPolicy,
+      this._scheduler,
+    );
+    view._atStateVersion = this._atStateVersion;
+    view._lane = this._lane;
+    view._network = this._network;
+    view._validateAddresses = this._validateAddresses;
+    view._logger = this._logger;
+    view._instrumentation = this._instrumentation;
+    view._cache = this._cache && {
+      ...this._cache,
+      loader: view.entityDetailsLoader(),
+    };
+    return view;
+  }
+
+  /**
+   * Validates addresses against the network of the Gateway, if address validation is enabled.
+   * @param addresses Addresses to validate.
+   * @param kinds Accepted kinds. Any kind is accepted when not provided.
+   */
+  private async checkAddresses(
+    addresses: string[],
+    kinds?: AddressKind[],
+  ): Promise<void> {
+    if (!this._validateAddresses) {
+      return;
+    }
+    const networkId = (await this.networkContext()).networkId();
+    addresses.forEach((address) =>
+      validateAddress(address, { kinds: kinds, networkId: networkId }),
+    );
+  }
+
+  /**
+   * Returns the ledger state selector to use for queries, pinning them if this is a snapshot view.
+   */
+  private ledgerStateSelector(): LedgerStateSelector | undefined {
+    return this._atStateVersion !== undefined
+      ? { state_version: this._atStateVersion }
+      : undefined;
+  }
+
+  private async resolveStateVersion(
+    state: number | Date | string,
+  ): Promise<number> {
+    if (typeof state === "number") {
+      if (!Number.isInteger(state) || state < 1) {
+        throw new InvalidLedgerStateError(
+          `${state}`,
+          "state versions are positive integers",
+        );
+      }
+      return state;
+    }
+
+    const timestamp = new Date(state);
+    if (isNaN(timestamp.getTime())) {
+      throw new InvalidLedgerStateError(`${state}`, "not a valid date");
+    }
+    if (timestamp.getTime() > Date.now()) {
+      throw new InvalidLedgerStateError(
+        timestamp.toISOString(),
+        "the timestamp is in the future",
+      );
+    }
+    return this.stateVersionAt(timestamp);
+  }
+
+  /**
+   * Resolves the state version of the ledger at a given time.
+   * @param timestamp Time at which to resolve the state version.
+   */
+  private async stateVersionAt(timestamp: Date): Promise<number> {
+    const ledgerState = await this.withRetry(
+      "stateVersionAt",
+      async () => {
+        const resp = await this._api.stream.innerClient.streamTransactions({
+          streamTransactionsRequest: {
+            at_ledger_state: { timestamp: timestamp },
+            limit_per_page: 1,
+          },
+        });
+        return resp.ledger_state;
+      },
+      `Could not resolve ledger state at ${timestamp.toISOString()}`,
+    );
+    // The Gateway resolves the last state at or before the timestamp, a later one means there is none
+    if (new Date(ledgerState.proposer_round_timestamp) > timestamp) {
+      throw new InvalidLedgerStateError(
+        timestamp.toISOString(),
+        "the timestamp is before the first ledger state",
+      );
+    }
+    return ledgerState.state_version;
+  }
+
+  /**
+   * Runs a call to the Gateway with the retry policy configured for the given method.
+   */
+  private async withRetry<ReturnType>(
+    method: string,
+    toRun: () => Promise<ReturnType>,
+    errorMessage: string,
+  ): Promise<ReturnType> {
+    const scheduled = () =>
+      this._scheduler.schedule(async () => {
+        try {
+          return await toRun();
+        } catch (err) {
+          // Hold every request of the scheduler while the Gateway asks to slow down
+          const retryAfter = retryAfterDelay(err);
+          if (retryAfter !== undefined) {
+            this._scheduler.pause(retryAfter);
+          }
+          throw err;
+        }
+      }, this._lane);
+    return this._retryPolicy.forMethod(method).run(scheduled, errorMessage, {
+      endpoint: method,
+      logger: this._logger,
+      instrumentation: this._instrumentation,
+    });
+  }
+
+  private async resourceHoldersPage(
+    resourceAddress: string,
+    cursor?: string | null,
+  ): Promise<ResourceHoldersResponse> {
+    return this.withRetry(
+      "resourceHoldersPage",
+      async () => {
+        return await this._api.extensions.innerClient.resourceHoldersPage({
+          resourceHoldersRequest: {
+            resource_address: resourceAddress,
+            cursor: cursor,
+          },
+        });
+      },
+      "Could not query resource holders",
+    );
+  }
+
+  /**
+   * Reads balances of a fungible resource at a past state version, from the entity details of the
+   * holders in batches. Holders with more resources than the first page are read one by one.
+   */
+  private async fungibleBalancesAt(
+    entities: string[],
+    resourceAddress: string,
+    stateVersion: number,
+  ): Promise<Map<string, Decimal>> {
+    let balances = new Map<string, Decimal>();
+    await Promise.all(
+      divideInBatches(entities, 20).map(async (batch) => {
+        const resp = await this.fetchEntityDetails(
+          batch,
+          "Global",
+          stateVersion,
+        );
+        await Promise.all(
+          resp.items.map(async (item) => {
+            const resource = item.fungible_resources?.items.find(
+              (resource) => resource.resource_address === resourceAddress,
+            );
+            if (resource && resource.aggregation_level === "Global") {
+              balances.set(item.address, Decimal.from(resource.amount));
+            } else if (resource || item.fungible_resources?.next_cursor) {
+              balances.set(
+                item.address,
+                await this.fungibleBalanceAt(
+                  item.address,
+                  resourceAddress,
+                  stateVersion,
+                ),
+              );
+            } else {
+              balances.set(item.address, Decimal.ZERO);
+            }
+          }),
+        );
+      }),
+    );
+    return balances;
+  }
+
+  private async fungibleBalanceAt(
+    entity: string,
+    resourceAddress: string,
+    stateVersion: number,
+  ): Promise<Decimal> {
+    let balance = Decimal.ZERO;
+    let cursor: string | null | undefined = undefined;
+    do {
+      const resp: StateEntityFungibleResourceVaultsPageResponse =
+        await this.withRetry(
+          "fungibleBalanceAt",
+          async () => {
+            return await this._api.state.innerClient.entityFungibleResourceVaultPage(
+              {
+                stateEntityFungibleResourceVaultsPageRequest: {
+                  address: entity,
+                  resource_address: resourceAddress,
+                  cursor: cursor,
+                  at_ledger_state: { state_version: stateVersion },
+                },
+              },
+            );
+          },
+          "Could not query fungible vaults",
+        );
+      resp.items.forEach((vault) => {
+        balance = balance.plus(vault.amount);
+      });
+      cursor = resp.next_cursor;
+    } while (cursor);
+    return balance;
+  }
+
+  private async validatorsPage(
+    cursor?: string,
+    atLedgerState?: LedgerStateSelector,
+  ): Promise<StateValidatorsListResponse> {
+    return this.withRetry(
+      "validatorsPage",
+      async () => {
+        return await this._api.state.innerClient.stateValidatorsList({
+          stateValidatorsListRequest: {
+            cursor: cursor,
+            at_ledger_state: atLedgerState,
+          },
+        });
+      },
+      "Could not query validators",
+    );
+  }
+
+  private async validatorsUptime(
+    addresses: string[],
+    atLedgerState?: LedgerStateSelector,
+  ): Promise<ValidatorsUptimeResponse> {
+    return this.withRetry(
+      "validatorsUptime",
+      async () => {
+        return await this._api.statistics.innerClient.validatorsUptime({
+          validatorsUptimeRequest: {
+            validator_addresses: addresses,
+            at_ledger_state: atLedgerState,
+          },
+        });
+      },
+      "Could not query validators uptime",
+    );
+  }
+
   private async keyValueStoreKeys(
     kvsAddress: string,
     cursor?: string,
   ): Promise<StateKeyValueStoreKeysResponse> {
-    return await withMaxLoops(
+    return await this.withRetry(
+      "keyValueStoreKeys",
       async () => {
         return await this._api.state.innerClient.keyValueStoreKeys({
           stateKeyValueStoreKeysRequest: {
             key_value_store_address: kvsAddress,
             cursor,
+            at_ledger_state: this.ledgerStateSelector(),
             limit_per_page: 100,
           },
         });
       },
       "Could not query Key Value store data",
-      this._maxLoops,
     );
   }
 
+  private async entityMetadataPage(
+    address: string,
+    cursor?: string,
+    atLedgerState?: LedgerStateSelector,
+  ): Promise<StateEntityMetadataPageResponse> {
+    return this.withRetry(
+      "entityMetadataPage",
+      async () => {
+        return await this._api.state.innerClient.entityMetadataPage({
+          stateEntityMetadataPageRequest: {
+            address: address,
+            cursor: cursor,
+            at_ledger_state: atLedgerState,
+          },
+        });
+      },
+      `Could not query metadata of ${address}`,
+    );
+  }
+
+  /**
+   * Reads the remaining metadata pages of an entity, from a cursor.
+   * @param address Address of the entity.
+   * @param cursor Cursor of the next page.
+   * @param stateVersion State version of the first page, the next ones are read at the same state.
+   */
+  private async metadataPages(
+    address: string,
+    cursor: string,
+    stateVersion: number,
+  ): Promise<EntityMetadataItem[]> {
+    let items: EntityMetadataItem[] = [];
+    let nextCursor: string | null | undefined = cursor;
+    while (nextCursor) {
+      const page: StateEntityMetadataPageResponse =
+        await this.entityMetadataPage(address, nextCursor, {
+          state_version: stateVersion,
+        });
+      items = items.concat(page.items);
+      nextCursor = page.next_cursor;
+    }
+    return items;
+  }
+
   private async keyValueStoreData(
     kvsAddress: string,
     keys: StateKeyValueStoreDataRequestKeyItem[],
   ): Promise<StateKeyValueStoreDataResponseItem[]> {
-    let resp = await withMaxLoops(
+    let resp = await this.withRetry(
+      "keyValueStoreData",
       async () => {
         return await this._api.state.innerClient.keyValueStoreData({
           stateKeyValueStoreDataRequest: {
             key_value_store_address: kvsAddress,
             keys: keys,
+            at_ledger_state: this.ledgerStateSelector(),
           },
         });
       },
       "Could not query Key Value store data",
-      this._maxLoops,
     );
 
     return resp.entries;
   }
 
+  /**
+   * Retrieves the balances of every fungible resource held by an entity, going through every page.
+   */
+  private async fungibleResourcesOf(
+    entity: string,
+  ): Promise<FungibleResourcesCollectionItemGloballyAggregated[]> {
+    const resp = await this.entityDetails([entity]);
+    const firstPage = resp.items[0]?.fungible_resources;
+    let items = firstPage ? firstPage.items : [];
+    let cursor = firstPage?.next_cursor;
+    while (cursor) {
+      const page = await this.entityFungiblesPage(
+        entity,
+        cursor,
+        resp.ledger_state.state_version,
+      );
+      items = items.concat(page.items);
+      cursor = page.next_cursor;
+    }
+    return items.filter(
+      (item): item is FungibleResourcesCollectionItemGloballyAggregated =>
+        item.aggregation_level === "Global",
+    );
+  }
+
+  private async entityFungiblesPage(
+    entity: string,
+    cursor: string,
+    ledgerState: number,
+  ): Promise<StateEntityFungiblesPageResponse> {
+    return this.withRetry(
+      "entityFungiblesPage",
+      async () => {
+        return await this._api.state.innerClient.entityFungiblesPage({
+          stateEntityFungiblesPageRequest: {
+            address: entity,
+            aggregation_level: "Global",
+            cursor: cursor,
+            at_ledger_state: { state_version: ledgerState },
+          },
+        });
+      },
+      "Could not query entity fungibles page",
+    );
+  }
+
   private async getEntityCollections(
     entity: string,
     cursor?: string,
     ledgerState?: number,
   ): Promise<StateEntityNonFungiblesPageResponse> {
-    return withMaxLoops(
+    return this.withRetry(
+      "getEntityCollections",
       async () => {
         return await this._api.state.innerClient.entityNonFungiblesPage({
           stateEntityNonFungiblesPageRequest: {
@@ -827,7 +2238,6 @@ export class GatewayProcessor {
         });
       },
       "Could not query entity non fungibles page",
-      this._maxLoops,
     );
   }
 
@@ -838,32 +2248,24 @@ export class GatewayProcessor {
     cursor?: string | null,
     atLedgerState?: number,
   ): Promise<StateEntityNonFungibleIdsPageResponse> {
-    return withMaxLoops(
+    return this.withRetry(
+      "getEntityNFTsInVault",
       async () => {
-        if (cursor && atLedgerState) {
-          return await this._api.state.innerClient.entityNonFungibleIdsPage({
-            stateEntityNonFungibleIdsPageRequest: {
-              address: address,
-              vault_address: vaultAddress,
-              resource_address: resourceAddress,
-              cursor: cursor,
-              at_ledger_state: {
-                state_version: atLedgerState,
-              },
-            },
-          });
-        } else {
-          return await this._api.state.innerClient.entityNonFungibleIdsPage({
-            stateEntityNonFungibleIdsPageRequest: {
-              address: address,
-              vault_address: vaultAddress,
-              resource_address: resourceAddress,
-            },
-          });
-        }
+        return await this._api.state.innerClient.entityNonFungibleIdsPage({
+          stateEntityNonFungibleIdsPageRequest: {
+            address: address,
+            vault_address: vaultAddress,
+            resource_address: resourceAddress,
+            cursor: cursor,
+            at_ledger_state: atLedgerState
+              ? {
+                  state_version: atLedgerState,
+                }
+              : undefined,
+          },
+        });
       },
       "Could not query NFT in given vault",
-      this._maxLoops,
     );
   }
   private async nonFungibleIds(
@@ -871,7 +2273,8 @@ export class GatewayProcessor {
     atLedgerState: number,
     cursor?: string,
   ): Promise<StateNonFungibleIdsResponse> {
-    return withMaxLoops(
+    return this.withRetry(
+      "nonFungibleIds",
       async () => {
         return await this._api.state.innerClient.nonFungibleIds({
           stateNonFungibleIdsRequest: {
@@ -885,7 +2288,6 @@ export class GatewayProcessor {
         });
       },
       "Could not query non fungible ids",
-      this._maxLoops,
     );
   }
 
@@ -895,7 +2297,8 @@ export class GatewayProcessor {
     cursor?: string,
     filters?: string[],
   ): Promise<StreamTransactionsResponse> {
-    return withMaxLoops(
+    return this.withRetry(
+      "transactionStream",
       async () => {
         if (!filters) {
           return await this._api.stream.innerClient.streamTransactions({
@@ -903,6 +2306,7 @@ export class GatewayProcessor {
               from_ledger_state: {
                 state_version: fromStateVersion,
               },
+              at_ledger_state: this.ledgerStateSelector(),
               cursor: cursor,
               order: "Asc",
               limit_per_page: 100,
@@ -911,6 +2315,7 @@ export class GatewayProcessor {
                 balance_changes: true,
                 raw_hex: true,
                 receipt_events: true,
+                detailed_events: true,
                 receipt_state_changes: receiptCtateChanges
                   ? receiptCtateChanges
                   : false,
@@ -923,6 +2328,7 @@ export class GatewayProcessor {
               from_ledger_state: {
                 state_version: fromStateVersion,
               },
+              at_ledger_state: this.ledgerStateSelector(),
               cursor: cursor,
               order: "Asc",
               limit_per_page: 100,
@@ -932,13 +2338,13 @@ export class GatewayProcessor {
                 balance_changes: true,
                 raw_hex: true,
                 receipt_events: true,
+                detailed_events: true,
               },
             },
           });
         }
       },
       "Could not query transaction stream",
-      this._maxLoops,
     );
   }
 
@@ -947,7 +2353,8 @@ export class GatewayProcessor {
     ids: string[],
     atLedgerState?: number,
   ): Promise<StateNonFungibleDetailsResponseItem[]> {
-    return withMaxLoops(
+    return this.withRetry(
+      "getNonFungibleData",
       async () => {
         return await this._api.state.getNonFungibleData(
           address,
@@ -960,20 +2367,43 @@ export class GatewayProcessor {
         );
       },
       "Could not query non fungible data",
-      this._maxLoops,
     );
   }
 
+  private async nonFungibleLocations(
+    address: string,
+    ids: string[],
+    atLedgerState: number,
+  ): Promise<StateNonFungibleLocationResponseItem[]> {
+    const batches = await Promise.all(
+      divideInBatches(ids, 100).map((batch) =>
+        this.getEntityLocation(address, batch, atLedgerState),
+      ),
+    );
+    return batches.flat();
+  }
+
   private async getEntityLocation(
     address: string,
     ids: string[],
+    atLedgerState?: number,
   ): Promise<StateNonFungibleLocationResponseItem[]> {
-    return withMaxLoops(
+    return this.withRetry(
+      "getEntityLocation",
       async () => {
-        return await this._api.state.getNonFungibleLocation(address, ids);
+        const resp = await this._api.state.innerClient.nonFungibleLocation({
+          stateNonFungibleLocationRequest: {
+            resource_address: address,
+            non_fungible_ids: ids,
+            at_ledger_state:
+              atLedgerState !== undefined
+                ? { state_version: atLedgerState }
+                : this.ledgerStateSelector(),
+          },
+        });
+        return resp.non_fungible_ids;
       },
       "Could not query non fungible location",
-      this._maxLoops,
     );
   }
 
@@ -981,7 +2411,8 @@ export class GatewayProcessor {
     compiledTransaction: Uint8Array,
     intentHash: TransactionHash,
   ) {
-    return withMaxLoops(
+    return this.withRetry(
+      "submitTransaction",
       async () => {
         return await this._api.transaction.innerClient.transactionSubmit({
           transactionSubmitRequest: {
@@ -991,24 +2422,24 @@ export class GatewayProcessor {
         });
       },
       `Could not submit transaction ${intentHash}`,
-      this._maxLoops,
     );
   }
 
   private async getCurrentEpoch(): Promise<number> {
-    return withMaxLoops(
+    return this.withRetry(
+      "getCurrentEpoch",
       async () => {
         return (await this._api.status.getCurrent()).ledger_state.epoch;
       },
       "Could not get current epoch",
-      this._maxLoops,
     );
   }
 
   private async getTransactionStatus(
     intentHash: string,
   ): Promise<TransactionStatusResponse> {
-    return withMaxLoops(
+    return this.withRetry(
+      "getTransactionStatus",
       async () => {
         return await this._api.transaction.innerClient.transactionStatus({
           transactionStatusRequest: {
@@ -1017,20 +2448,20 @@ export class GatewayProcessor {
         });
       },
       "Could not get transaction status",
-      this._maxLoops,
     );
   }
 }
 
-function getApiAddress(networkId: number): string {
-  switch (networkId) {
-    case NetworkId.Mainnet:
-      return "https://mainnet.radixdlt.com/";
-
-    case NetworkId.Stokenet:
-      return "https://babylon-stokenet-gateway.radixdlt.com/";
-
-    default:
-      return "https://mainnet.radixdlt.com/";
-  }
+type ResponseCache = {
+  storage: CacheStorage;
+  ttl: number;
+  loader: EntityDetailsLoader;
+};
+
+function entityDetailsCacheKey(
+  address: string,
+  aggregationLevel: ResourceAggregationLevel,
+  atStateVersion: number | undefined,
+): string {
+  return `entityDetails:${aggregationLevel}:${atStateVersion !== undefined ? atStateVersion : "latest"}:${address}`;
 }
@@ -0,0 +1,161 @@
+/**
+ * Priority of a request: interactive requests are always sent before background ones.
+ */
+export type SchedulerLane = "interactive" | "background";
+
+export type RequestSchedulerOptions = {
+  /** Maximum number of requests in flight at once, across all endpoints. */
+  maxInFlight: number;
+  /** Average number of requests sent per second. Unlimited when not provided. */
+  requestsPerSecond?: number;
+  /** Number of requests that can be sent at once after being idle. Default is requestsPerSecond. */
+  burst?: number;
+};
+
+export const defaultRequestSchedulerOptions: RequestSchedulerOptions = {
+  maxInFlight: 10,
+};
+
+/**
+ * Schedules the requests sent to the Gateway: a token bucket bounds the request rate, a limit
+ * bounds the requests in flight, and every request waits while the scheduler is paused, such as
+ * after the Gateway asked to slow down. A scheduler can be shared between GatewayProcessors
+ * using the same API key.
+ */
+export class RequestScheduler {
+  private readonly _options: RequestSchedulerOptions;
+  private readonly _queues: Record<SchedulerLane, (() => void)[]>;
+  private _inFlight: number;
+  private _tokens: number;
+  private _lastRefill: number;
+  private _pausedUntil: number;
+  private _timer: ReturnType<typeof setTimeout> | undefined;
+
+  /**
+   * Constructs a new RequestScheduler instance.
+   * @param options Options of the scheduler. Missing options are taken from the defaults.
+   */
+  constructor(options?: Partial<RequestSchedulerOptions>) {
+    this._options = { ...defaultRequestSchedulerOptions, ...options };
+    this._queues = { interactive: [], background: [] };
+    this._inFlight = 0;
+    this._tokens = this.capacity();
+    this._lastRefill = Date.now();
+    this._pausedUntil = 0;
+    this._timer = undefined;
+  }
+
+  options(): RequestSchedulerOptions {
+    return this._options;
+  }
+
+  /**
+   * Runs a request once the scheduler allows it.
+   * @param request Request to run.
+   * @param lane Priority of the request. Default is interactive.
+   * @returns A promise resolving to the result of the request.
+   */
+  schedule<ReturnType>(
+    request: () => Promise<ReturnType>,
+    lane?: SchedulerLane,
+  ): Promise<ReturnType> {
+    return new Promise<ReturnType>((resolve, reject) => {
+      this._queues[lane ? lane : "interactive"].push(() => {
+        request()
+          .then(resolve, reject)
+          .finally(() => {
+            this._inFlight -= 1;
+            this.dispatch();
+          });
+      });
+      this.dispatch();
+    });
+  }
+
+  /**
+   * Holds every request not sent yet for a given time. Overlapping pauses are merged.
+   * @param duration Duration of the pause, in milliseconds.
+   */
+  pause(duration: number) {
+    this._pausedUntil = Math.max(this._pausedUntil, Date.now() + duration);
+    this.dispatch();
+  }
+
+  /**
+   * Returns the time until which requests are held, as a timestamp in milliseconds.
+   */
+  pausedUntil(): number {
+    return this._pausedUntil;
+  }
+
+  inFlight(): number {
+    return this._inFlight;
+  }
+
+  /**
+   * Returns the number of requests waiting to be sent.
+   */
+  pending(): number {
+    return this._queues.interactive.length + this._queues.background.length;
+  }
+
+  private capacity(): number {
+    const { requestsPerSecond, burst } = this._options;
+    if (requestsPerSecond === undefined) {
+      return Infinity;
+    }
+    return Math.max(1, burst !== undefined ? burst : requestsPerSecond);
+  }
+
+  private refill(now: number) {
+    const { requestsPerSecond } = this._options;
+    if (requestsPerSecond !== undefined) {
+      this._tokens = Math.min(
+        this.capacity(),
+        this._tokens + ((now - this._lastRefill) * requestsPerSecond) / 1000,
+      );
+    }
+    this._lastRefill = now;
+  }
+
+  private dispatch() {
+    while (this.pending() > 0) {
+      const now = Date.now();
+      if (now < this._pausedUntil) {
+        this.wakeUpIn(this._pausedUntil - now);
+        return;
+      }
+      // Completed requests dispatch again
+      if (this._inFlight >= this._options.maxInFlight) {
+        return;
+      }
+      this.refill(now);
+      if (this._tokens < 1) {
+        this.wakeUpIn(
+          Math.ceil(
+            ((1 - this._tokens) * 1000) / this._options.requestsPerSecond!,
+          ),
+        );
+        return;
+      }
+
+      const queue =
+        this._queues.interactive.length > 0
+          ? this._queues.interactive
+          : this._queues.background;
+      this._tokens -= 1;
+      this._inFlight += 1;
+      queue.shift()!();
+    }
+  }
+
+  private wakeUpIn(delay: number) {
+    if (this._timer !== undefined) {
+      return;
+    }
+    this._timer = setTimeout(() => {
+      this._timer = undefined;
+      this.dispatch();
+    }, delay);
+  }
+}
@@ -0,0 +1,226 @@
+import {
+  RequiredError,
+  ResponseError,
+} from "@radixdlt/babylon-gateway-api-sdk";
+import { sleep } from "./Utils";
+import { Logger, silentLogger } from "../Observability/Logger";
+import { Instrumentation } from "../Observability/Instrumentation";
+
+export type RetryPolicyOptions = {
+  /** Maximum number of attempts, including the first one. */
+  maxAttempts: number;
+  /** Delay before the first retry, in milliseconds. */
+  initialDelay: number;
+  /** Upper bound for the delay between two attempts, in milliseconds. */
+  maxDelay: number;
+  /** Factor by which the delay is multiplied after each failed attempt. */
+  backoffFactor: number;
+  /** Share of the delay, between 0 and 1, that is randomized. */
+  jitter: number;
+  /** Time after which no new attempt is started, in milliseconds. */
+  maxElapsedTime: number;
+  /** Decides whether a given error is worth retrying. */
+  isRetryable: (error: unknown) => boolean;
+};
+
+/**
+ * Where to report the attempts of a run.
+ */
+export type RunObserver = {
+  /** Name of the Gateway call. */
+  endpoint: string;
+  /** Logger to report giving up to. Default discards the messages. */
+  logger?: Logger;
+  instrumentation?: Instrumentation[];
+};
+
+export const defaultRetryPolicyOptions: RetryPolicyOptions = {
+  maxAttempts: 30,
+  initialDelay: 500,
+  maxDelay: 10000,
+  backoffFactor: 2,
+  jitter: 0.5,
+  maxElapsedTime: 60000,
+  isRetryable: isTransientError,
+};
+
+/**
+ * Describes how calls to the Gateway are retried: exponential backoff with jitter, bounded by a
+ * number of attempts and a total elapsed time. Options can be overridden per GatewayProcessor method.
+ */
+export class RetryPolicy {
+  private readonly _options: RetryPolicyOptions;
+  private readonly _overrides: Map<string, Partial<RetryPolicyOptions>>;
+
+  /**
+   * Constructs a new RetryPolicy instance.
+   * @param options Options of the policy. Missing options are taken from the defaults.
+   * @param overrides Options to use instead for specific methods, keyed by method name.
+   */
+  constructor(
+    options?: Partial<RetryPolicyOptions>,
+    overrides?: Record<string, Partial<RetryPolicyOptions>>,
+  ) {
+    this._options = { ...defaultRetryPolicyOptions, ...options };
+    this._overrides = new Map(Object.entries(overrides || {}));
+  }
+
+  /**
+   * Returns a policy that never retries.
+   */
+  public static none(): RetryPolicy {
+    return new RetryPolicy({ maxAttempts: 1 });
+  }
+
+  options(): RetryPolicyOptions {
+    return this._options;
+  }
+
+  /**
+   * Returns a copy of this policy with overridden options for the given method.
+   * @param method Name of the method to override options for.
+   * @param options Options to use for this method.
+   */
+  withOverride(
+    method: string,
+    options: Partial<RetryPolicyOptions>,
+  ): RetryPolicy {
+    const overrides = Object.fromEntries(this._overrides);
+    overrides[method] = { ...overrides[method], ...options };
+    return new RetryPolicy(this._options, overrides);
+  }
+
+  /**
+   * Returns the policy to apply to the given method.
+   * @param method Name of the method.
+   */
+  forMethod(method: string): RetryPolicy {
+    const override = this._overrides.get(method);
+    if (!override) {
+      return this;
+    }
+    return new RetryPolicy({ ...this._options, ...override });
+  }
+
+  /**
+   * Computes the delay to wait before the next attempt.
+   * @param attempt Number of attempts already made, starting at 1.
+   * @returns The delay in milliseconds.
+   */
+  delay(attempt: number): number {
+    const { initialDelay, maxDelay, backoffFactor, jitter } = this._options;
+    const exponential = Math.min(
+      maxDelay,
+      initialDelay * Math.pow(backoffFactor, attempt - 1),
+    );
+    return Math.round(exponential * (1 - jitter * Math.random()));
+  }
+
+  /**
+   * Runs a function, retrying it according to this policy.
+   * @param toRun Function to run.
+   * @param errorMessage Message to log when giving up.
+   * @param observer Endpoint name, logger and instrumentation to report attempts to.
+   * @returns A promise resolving to the result of the function.
+   */
+  async run<ReturnType>(
+    toRun: () => Promise<ReturnType>,
+    errorMessage: string,
+    observer?: RunObserver,
+  ): Promise<ReturnType> {
+    const endpoint = observer ? observer.endpoint : "unknown";
+    const logger = observer?.logger ? observer.logger : silentLogger;
+    const notify = (hook: (instrumentation: Instrumentation) => void) => {
+      (observer?.instrumentation || []).forEach((instrumentation) => {
+        try {
+          hook(instrumentation);
+        } catch (e) {
+          logger.warn(`Instrumentation failed for ${endpoint}`, e);
+        }
+      });
+    };
+
+    const start = Date.now();
+    let attempt = 0;
+    while (true) {
+      attempt += 1;
+      const attemptStart = Date.now();
+      notify((i) => i.onRequest?.({ endpoint: endpoint, attempt: attempt }));
+      try {
+        const result = await toRun();
+        notify((i) =>
+          i.onResponse?.({
+            endpoint: endpoint,
+            attempt: attempt,
+            duration: Date.now() - attemptStart,
+          }),
+        );
+        return result;
+      } catch (err) {
+        const duration = Date.now() - attemptStart;
+        const delay = this.delay(attempt);
+        if (
+          attempt >= this._options.maxAttempts ||
+          !this._options.isRetryable(err) ||
+          Date.now() - start + delay > this._options.maxElapsedTime
+        ) {
+          notify((i) =>
+            i.onGiveUp?.({
+              endpoint: endpoint,
+              attempt: attempt,
+              duration: duration,
+              error: err,
+              totalDuration: Date.now() - start,
+            }),
+          );
+          logger.error(errorMessage, err);
+          throw err;
+        }
+        notify((i) =>
+          i.onRetry?.({
+            endpoint: endpoint,
+            attempt: attempt,
+            duration: duration,
+            error: err,
+            delay: delay,
+          }),
+        );
+        await sleep(delay);
+      }
+    }
+  }
+}
+
+/**
+ * Tells whether an error returned while calling the Gateway is transient and worth retrying.
+ * Network failures, rate limiting (429) and server errors (5xx) are transient, while validation
+ * errors and missing entities are permanent.
+ * @param error Error to classify.
+ */
+export function isTransientError(error: unknown): boolean {
+  if (error instanceof ResponseError) {
+    return error.status === 408 || error.status === 429 || error.status >= 500;
+  }
+  return !(error instanceof RequiredError);
+}
+
+/**
+ * Returns the delay the Gateway asked to wait for with a 429 response, if any.
+ * @param error Error returned while calling the Gateway.
+ * @returns The delay in milliseconds, from the Retry-After header.
+ */
+export function retryAfterDelay(error: unknown): number | undefined {
+  if (!(error instanceof ResponseError) || error.status !== 429) {
+    return undefined;
+  }
+  const retryAfter = error.fetchResponse.headers.get("Retry-After");
+  if (!retryAfter) {
+    return undefined;
+  }
+  // Either a number of seconds or an HTTP date
+  const seconds = Number(retryAfter);
+  const delay = isNaN(seconds)
+    ? Date.parse(retryAfter) - Date.now()
+    : seconds * 1000;
+  return isNaN(delay) ? undefined : Math.max(0, delay);
+}
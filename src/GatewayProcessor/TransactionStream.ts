@@ -0,0 +1,124 @@
+import {
+  CommittedTransactionInfo,
+  StreamTransactionsResponse,
+} from "@radixdlt/babylon-gateway-api-sdk";
+import { sleep } from "./Utils";
+
+export type TransactionStreamCheckpoint = {
+  /** State version of the last transaction read. */
+  stateVersion: number;
+};
+
+export type TransactionStreamOptions = {
+  /** Ledger state version to start from. Ignored if a checkpoint is given. Default is 1. */
+  fromStateVersion?: number;
+  /** Checkpoint to resume from, the stream starts right after it. */
+  checkpoint?: TransactionStreamCheckpoint;
+  /** Whether to include state changes in the receipts. */
+  receiptStateChanges?: boolean;
+  /** Entities that need to be affected for a transaction to be returned. */
+  entityFilter?: string[];
+  /** Whether to also return transactions that were committed with a failure. */
+  includeFailures?: boolean;
+  /** Whether to keep following new transactions once the top of the ledger is reached. */
+  tail?: boolean;
+  /** Time to wait before polling for new transactions in tail mode, in milliseconds. Default is 5000. */
+  pollingInterval?: number;
+};
+
+/**
+ * Async iterable over committed transactions, that keeps track of a checkpoint to resume from.
+ */
+export class TransactionStream
+  implements AsyncIterable<CommittedTransactionInfo>
+{
+  private readonly _fetchPage: (
+    fromStateVersion: number,
+    cursor?: string,
+  ) => Promise<StreamTransactionsResponse>;
+  private readonly _options: TransactionStreamOptions;
+  private _checkpoint: TransactionStreamCheckpoint | undefined;
+  private _stopped: boolean;
+
+  /**
+   * Constructs a new TransactionStream instance.
+   * @param fetchPage Function fetching a page of transactions from a state version and cursor.
+   * @param options Options of the stream.
+   */
+  constructor(
+    fetchPage: (
+      fromStateVersion: number,
+      cursor?: string,
+    ) => Promise<StreamTransactionsResponse>,
+    options?: TransactionStreamOptions,
+  ) {
+    this._fetchPage = fetchPage;
+    this._options = options || {};
+    this._checkpoint = this._options.checkpoint;
+    this._stopped = false;
+  }
+
+  /**
+   * Returns the checkpoint of the last transaction read, if any.
+   */
+  checkpoint(): TransactionStreamCheckpoint | undefined {
+    return this._checkpoint;
+  }
+
+  /**
+   * Stops the stream. Iteration ends after the transaction being processed.
+   */
+  stop(): void {
+    this._stopped = true;
+  }
+
+  async *[Symbol.asyncIterator](): AsyncIterator<CommittedTransactionInfo> {
+    const pollingInterval = this._options.pollingInterval
+      ? this._options.pollingInterval
+      : 5000;
+    // Resumes at the checkpoint, which exists even at the top of the ledger, and skips it
+    let fromStateVersion = this._checkpoint
+      ? this._checkpoint.stateVersion
+      : this._options.fromStateVersion
+        ? this._options.fromStateVersion
+        : 1;
+    let cursor: string | undefined = undefined;
+
+    while (!this._stopped) {
+      const page: StreamTransactionsResponse = await this._fetchPage(
+        fromStateVersion,
+        cursor,
+      );
+      cursor = page.next_cursor ? page.next_cursor : undefined;
+
+      for (const tx of page.items) {
+        if (this._stopped) {
+          return;
+        }
+        if (
+          this._checkpoint &&
+          tx.state_version <= this._checkpoint.stateVersion
+        ) {
+          continue;
+        }
+        this._checkpoint = { stateVersion: tx.state_version };
+        if (
+          tx.transaction_status === "CommittedSuccess" ||
+          this._options.includeFailures
+        ) {
+          yield tx;
+        }
+      }
+
+      if (!cursor) {
+        if (!this._options.tail) {
+          return;
+        }
+        if (this._checkpoint) {
+          fromStateVersion = this._checkpoint.stateVersion;
+        }
+        await sleep(pollingInterval);
+      }
+    }
+  }
+}
@@ -0,0 +1,208 @@
+import {
+  TransactionCommittedDetailsResponse,
+  TransactionStatusResponse,
+} from "@radixdlt/babylon-gateway-api-sdk";
+import { parseTransactionReceipt, sleep } from "./Utils";
+import { TransactionReceipt } from "../Types/Transaction";
+
+export type TransactionTrackerEvent =
+  | "submitted"
+  | "pending"
+  | "committedSuccess"
+  | "committedFailure"
+  | "rejected"
+  | "expired";
+
+export type TransactionTrackerUpdate = {
+  event: TransactionTrackerEvent;
+  intentHash: string;
+  /** Last status returned by the Gateway, if any. */
+  status?: TransactionStatusResponse;
+  /** Reason of the failure, rejection or expiry. */
+  errorMessage?: string;
+  /** Receipt of the transaction, once committed. */
+  receipt?: TransactionReceipt;
+};
+
+export type TransactionTrackerOptions = {
+  /** Epoch from which the transaction is no longer valid. Tracking stops with `expired` once it is reached. */
+  endEpochExclusive?: number;
+  /** Delay before the first poll, in milliseconds. Default is 1000. */
+  initialDelay?: number;
+  /** Upper bound for the delay between two polls, in milliseconds. Default is 10000. */
+  maxDelay?: number;
+  /** Factor by which the delay is multiplied after each poll. Default is 1.5. */
+  backoffFactor?: number;
+};
+
+const finalEvents: TransactionTrackerEvent[] = [
+  "committedSuccess",
+  "committedFailure",
+  "rejected",
+  "expired",
+];
+
+/**
+ * Follows a submitted transaction until it is committed, rejected or expired, polling its status
+ * with backoff and emitting an update at each step. Tracking starts with the first call to `result()`,
+ * so that listeners can be registered beforehand.
+ */
+export class TransactionTracker {
+  private readonly _intentHash: string;
+  private readonly _fetchStatus: (
+    intentHash: string,
+  ) => Promise<TransactionStatusResponse>;
+  private readonly _fetchCommittedDetails: (
+    intentHash: string,
+  ) => Promise<TransactionCommittedDetailsResponse>;
+  private readonly _options: TransactionTrackerOptions;
+  private _listeners: {
+    event: TransactionTrackerEvent | "update";
+    listener: (update: TransactionTrackerUpdate) => void;
+  }[];
+  private _result: Promise<TransactionTrackerUpdate> | undefined;
+
+  /**
+   * Constructs a new TransactionTracker instance.
+   * @param intentHash Intent hash of the transaction to track.
+   * @param fetchStatus Function fetching the status of the transaction.
+   * @param fetchCommittedDetails Function fetching the details of the committed transaction.
+   * @param options Options of the tracker.
+   */
+  constructor(
+    intentHash: string,
+    fetchStatus: (intentHash: string) => Promise<TransactionStatusResponse>,
+    fetchCommittedDetails: (
+      intentHash: string,
+    ) => Promise<TransactionCommittedDetailsResponse>,
+    options?: TransactionTrackerOptions,
+  ) {
+    this._intentHash = intentHash;
+    this._fetchStatus = fetchStatus;
+    this._fetchCommittedDetails = fetchCommittedDetails;
+    this._options = options || {};
+    this._listeners = [];
+    this._result = undefined;
+  }
+
+  intentHash(): string {
+    return this._intentHash;
+  }
+
+  /**
+   * Registers a listener for an event, or for every update with `"update"`.
+   * @param event Event to listen to.
+   * @param listener Function called with the update.
+   * @returns A function removing the listener.
+   */
+  on(
+    event: TransactionTrackerEvent | "update",
+    listener: (update: TransactionTrackerUpdate) => void,
+  ): () => void {
+    const subscription = { event: event, listener: listener };
+    this._listeners.push(subscription);
+    return () => {
+      this._listeners = this._listeners.filter(
+        (other) => other !== subscription,
+      );
+    };
+  }
+
+  /**
+   * Starts tracking if not started yet, and waits for the final outcome of the transaction.
+   * @returns A promise resolving to the final update: committedSuccess, committedFailure, rejected or expired.
+   */
+  result(): Promise<TransactionTrackerUpdate> {
+    if (!this._result) {
+      this._result = this.track();
+    }
+    return this._result;
+  }
+
+  private async track(): Promise<TransactionTrackerUpdate> {
+    const maxDelay = this._options.maxDelay ? this._options.maxDelay : 10000;
+    const backoffFactor = this._options.backoffFactor
+      ? this._options.backoffFactor
+      : 1.5;
+    let delay =
+      this._options.initialDelay !== undefined
+        ? this._options.initialDelay
+        : 1000;
+
+    this.emit({ event: "submitted", intentHash: this._intentHash });
+
+    while (true) {
+      await sleep(delay);
+      delay = Math.min(maxDelay, delay * backoffFactor);
+
+      const status = await this._fetchStatus(this._intentHash);
+      const update = await this.toUpdate(status);
+      this.emit(update);
+      if (finalEvents.includes(update.event)) {
+        return update;
+      }
+    }
+  }
+
+  private async toUpdate(
+    status: TransactionStatusResponse,
+  ): Promise<TransactionTrackerUpdate> {
+    const base = { intentHash: this._intentHash, status: status };
+    switch (status.intent_status) {
+      case "CommittedSuccess":
+      case "CommittedFailure": {
+        const details = await this._fetchCommittedDetails(this._intentHash);
+        return {
+          ...base,
+          event:
+            status.intent_status === "CommittedSuccess"
+              ? "committedSuccess"
+              : "committedFailure",
+          errorMessage: details.transaction.error_message || undefined,
+          receipt: parseTransactionReceipt(details.transaction),
+        };
+      }
+      case "PermanentlyRejected": {
+        return {
+          ...base,
+          event: "rejected",
+          errorMessage: rejectionReason(status),
+        };
+      }
+      default: {
+        const endEpoch = this._options.endEpochExclusive;
+        if (endEpoch !== undefined && status.ledger_state.epoch >= endEpoch) {
+          return {
+            ...base,
+            event: "expired",
+            errorMessage: `Transaction was not committed before epoch ${endEpoch}`,
+          };
+        }
+        return { ...base, event: "pending" };
+      }
+    }
+  }
+
+  private emit(update: TransactionTrackerUpdate): void {
+    this._listeners.forEach((subscription) => {
+      if (
+        subscription.event === "update" ||
+        subscription.event === update.event
+      ) {
+        subscription.listener(update);
+      }
+    });
+  }
+}
+
+function rejectionReason(status: TransactionStatusResponse): string {
+  const payloadError = status.known_payloads
+    .map((payload) => payload.latest_error_message || payload.error_message)
+    .find((message) => message);
+  return (
+    status.error_message ||
+    payloadError ||
+    status.intent_status_description ||
+    "Unknown rejection reason"
+  );
+}
@@ -1,8 +1,36 @@
-import { NonFungibleData } from "../Types/RadixTypes";
 import {
+  FungibleHoldingChange,
+  Holdings,
+  HoldingsDiff,
+  NonFungibleData,
+  NonFungibleHoldingChange,
+  PoolType,
+  PoolUnitRedemption,
+  ResourceBehaviours,
+} from "../Types/RadixTypes";
+import {
+  CommittedTransactionInfo,
+  ComponentEntityRoleAssignments,
   ProgrammaticScryptoSborValue,
   ProgrammaticScryptoSborValueMapEntry,
+  PublicKey as GatewayPublicKey,
+  StateEntityDetailsResponseItem,
+  TransactionPreviewResponse,
+  ValidatorCollectionItem,
 } from "@radixdlt/babylon-gateway-api-sdk";
+import { PublicKey } from "@radixdlt/radix-engine-toolkit";
+import {
+  CreatedEntity,
+  FeeBreakdown,
+  NonFungibleBalanceChange,
+  TransactionPreview,
+  TransactionReceipt,
+} from "../Types/Transaction";
+import { receiptEvents } from "../EventDispatcher/Utils";
+import { Validator } from "../Types/Staking";
+import { metadataString, toEntityMetadata } from "../Metadata/MetadataDecoder";
+import { decimal, string, struct, u64 } from "../Sbor/SborCodecs";
+import { Decimal } from "../Decimal/Decimal";
 
 export function divideInBatches<T>(collection: T[], batchSize: number): T[][] {
   let batches: T[][] = [];
@@ -13,24 +41,8 @@ export function divideInBatches<T>(collection: T[], batchSize: number): T[][] {
   return batches;
 }
 
-export async function withMaxLoops<ReturnType>(
-  toRun: () => Promise<ReturnType>,
-  error_message: string,
-  max_loops: number,
-): Promise<ReturnType> {
-  let loop_count = 0;
-  while (true) {
-    try {
-      return await toRun();
-    } catch (err) {
-      loop_count += 1;
-      if (loop_count === max_loops) {
-        console.log(error_message, err);
-        throw err;
-      }
-      await new Promise((r) => setTimeout(r, 500));
-    }
-  }
+export function sleep(ms: number): Promise<void> {
+  return new Promise((r) => setTimeout(r, ms));
 }
 
 export function parseNonFungibleData(
@@ -170,3 +182,369 @@ function mapToString(map: ProgrammaticScryptoSborValueMapEntry[]): string {
 
   return arrayStringToString(str);
 }
+
+export function toGatewayPublicKey(publicKey: PublicKey): GatewayPublicKey {
+  return publicKey.curve === "Secp256k1"
+    ? { key_type: "EcdsaSecp256k1", key_hex: publicKey.hex() }
+    : { key_type: "EddsaEd25519", key_hex: publicKey.hex() };
+}
+
+type ReceiptFeeSummary = {
+  xrd_total_execution_cost: string;
+  xrd_total_finalization_cost: string;
+  xrd_total_storage_cost: string;
+  xrd_total_royalty_cost: string;
+  xrd_total_tipping_cost: string;
+};
+
+type ReceiptStateUpdates = {
+  new_global_entities: { entity_type: string; entity_address: string }[];
+};
+
+type PreviewReceipt = {
+  status: "Succeeded" | "Failed" | "Rejected";
+  error_message?: string;
+  fee_summary?: ReceiptFeeSummary;
+  state_updates?: ReceiptStateUpdates;
+};
+
+type PreviewResourceChanges = {
+  resource_changes: {
+    resource_address: string;
+    component_entity: { entity_address: string };
+    amount: string;
+  }[];
+};
+
+export function parseTransactionPreview(
+  response: TransactionPreviewResponse,
+): TransactionPreview {
+  const receipt = response.receipt as PreviewReceipt;
+
+  let balanceChanges = new Map<string, Map<string, Decimal>>();
+  (response.resource_changes as PreviewResourceChanges[]).forEach(
+    (instructionChanges) => {
+      instructionChanges.resource_changes.forEach((change) => {
+        const entity = change.component_entity.entity_address;
+        let entityChanges =
+          balanceChanges.get(entity) || new Map<string, Decimal>();
+        const previous =
+          entityChanges.get(change.resource_address) || Decimal.ZERO;
+        entityChanges.set(
+          change.resource_address,
+          previous.plus(change.amount),
+        );
+        balanceChanges.set(entity, entityChanges);
+      });
+    },
+  );
+
+  return {
+    success: receipt.status === "Succeeded",
+    status: receipt.status,
+    errorMessage: receipt.error_message,
+    fees: parseFeeSummary(receipt.fee_summary),
+    balanceChanges: balanceChanges,
+    newEntities: parseNewEntities(receipt.state_updates),
+  };
+}
+
+export function parseTransactionReceipt(
+  transaction: CommittedTransactionInfo,
+): TransactionReceipt {
+  const receipt = transaction.receipt;
+  const newEntities = parseNewEntities(
+    receipt?.state_updates as ReceiptStateUpdates | undefined,
+  );
+  const addressesOf = (matches: (entityType: string) => boolean) =>
+    newEntities
+      .filter((entity) => matches(entity.entityType))
+      .map((entity) => entity.address);
+
+  let balanceChanges = new Map<string, Map<string, Decimal>>();
+  let nonFungibleBalanceChanges = new Map<
+    string,
+    Map<string, NonFungibleBalanceChange>
+  >();
+  const changes = transaction.balance_changes;
+  if (changes) {
+    changes.fungible_balance_changes.forEach((change) => {
+      let entityChanges =
+        balanceChanges.get(change.entity_address) || new Map<string, Decimal>();
+      entityChanges.set(
+        change.resource_address,
+        Decimal.from(change.balance_change),
+      );
+      balanceChanges.set(change.entity_address, entityChanges);
+    });
+    changes.non_fungible_balance_changes.forEach((change) => {
+      let entityChanges =
+        nonFungibleBalanceChanges.get(change.entity_address) ||
+        new Map<string, NonFungibleBalanceChange>();
+      entityChanges.set(change.resource_address, {
+        added: change.added,
+        removed: change.removed,
+      });
+      nonFungibleBalanceChanges.set(change.entity_address, entityChanges);
+    });
+  }
+
+  return {
+    intentHash: transaction.intent_hash || "",
+    stateVersion: transaction.state_version,
+    success: transaction.transaction_status === "CommittedSuccess",
+    status: transaction.transaction_status,
+    errorMessage: transaction.error_message || undefined,
+    createdEntities: {
+      components: addressesOf(
+        (entityType) =>
+          !entityType.includes("Package") &&
+          !entityType.includes("Resource") &&
+          !entityType.includes("Account"),
+      ),
+      resources: addressesOf((entityType) => entityType.includes("Resource")),
+      packages: addressesOf((entityType) => entityType.includes("Package")),
+      accounts: addressesOf((entityType) => entityType.includes("Account")),
+      all: newEntities,
+    },
+    fees: parseFeeSummary(
+      receipt?.fee_summary as ReceiptFeeSummary | undefined,
+    ),
+    balanceChanges: balanceChanges,
+    nonFungibleBalanceChanges: nonFungibleBalanceChanges,
+    events: receiptEvents(transaction),
+    transaction: transaction,
+  };
+}
+
+function parseFeeSummary(feeSummary?: ReceiptFeeSummary): FeeBreakdown {
+  const execution = Decimal.from(feeSummary?.xrd_total_execution_cost || 0);
+  const finalization = Decimal.from(
+    feeSummary?.xrd_total_finalization_cost || 0,
+  );
+  const storage = Decimal.from(feeSummary?.xrd_total_storage_cost || 0);
+  const royalties = Decimal.from(feeSummary?.xrd_total_royalty_cost || 0);
+  const tipping = Decimal.from(feeSummary?.xrd_total_tipping_cost || 0);
+  return {
+    execution: execution,
+    finalization: finalization,
+    storage: storage,
+    royalties: royalties,
+    tipping: tipping,
+    total: execution
+      .plus(finalization)
+      .plus(storage)
+      .plus(royalties)
+      .plus(tipping),
+  };
+}
+
+function parseNewEntities(stateUpdates?: ReceiptStateUpdates): CreatedEntity[] {
+  return (stateUpdates?.new_global_entities || []).map((entity) => {
+    return {
+      address: entity.entity_address,
+      entityType: entity.entity_type,
+    };
+  });
+}
+
+type AccessRule = { type: "AllowAll" | "DenyAll" | "Protected" };
+
+export function parseResourceBehaviours(
+  roleAssignments: ComponentEntityRoleAssignments,
+): ResourceBehaviours {
+  const owner = roleAssignments.owner as { rule: AccessRule };
+  const ruleOf = (role: string): AccessRule["type"] | undefined => {
+    const entry = roleAssignments.entries.find(
+      (entry) =>
+        entry.role_key.module === "Main" && entry.role_key.name === role,
+    );
+    if (!entry) {
+      return undefined;
+    }
+    return entry.assignment.resolution === "Owner"
+      ? owner.rule.type
+      : (entry.assignment.explicit_rule as AccessRule).type;
+  };
+  // Roles missing from the assignments are denied to everyone, except withdraw and deposit
+  const updatable = (role: string) =>
+    (ruleOf(`${role}_updater`) || "DenyAll") !== "DenyAll";
+  const allowed = (role: string) =>
+    (ruleOf(role) || "DenyAll") !== "DenyAll" || updatable(role);
+  const restricted = (role: string) =>
+    (ruleOf(role) || "AllowAll") !== "AllowAll" || updatable(role);
+
+  return {
+    mintable: allowed("minter"),
+    burnable: allowed("burner"),
+    freezable: allowed("freezer"),
+    recallable: allowed("recaller"),
+    restrictedWithdraw: restricted("withdrawer"),
+    restrictedDeposit: restricted("depositor"),
+  };
+}
+
+type ValidatorState = {
+  is_registered?: boolean;
+  accepts_delegated_stake?: boolean;
+  stake_unit_resource_address?: string;
+  claim_token_resource_address?: string;
+};
+
+export function parseValidator(
+  item: ValidatorCollectionItem,
+  uptime?: number,
+): Validator {
+  const state = item.state as ValidatorState;
+  const metadata = toEntityMetadata(item.metadata.items);
+  const addressIn = (key: string) => {
+    const entry = metadata.get(key);
+    return entry?.value.type === "GlobalAddress" ? entry.value.value : "";
+  };
+  const pendingFee = item.effective_fee_factor.pending;
+
+  return {
+    address: item.address,
+    name: metadataString(metadata, "name"),
+    stake: Decimal.from(item.stake_vault.balance),
+    stakePercentage: item.active_in_epoch?.stake_percentage,
+    fee: parseFloat(item.effective_fee_factor.current.fee_factor),
+    pendingFee: pendingFee
+      ? {
+          fee: parseFloat(pendingFee.fee_factor),
+          effectiveAtEpoch: pendingFee.effective_at_epoch,
+        }
+      : undefined,
+    isRegistered: state.is_registered === true,
+    isActive: item.active_in_epoch !== undefined,
+    acceptsDelegatedStake: state.accepts_delegated_stake === true,
+    uptime: uptime,
+    stakeUnitAddress:
+      state.stake_unit_resource_address || addressIn("pool_unit"),
+    claimNftAddress:
+      state.claim_token_resource_address || addressIn("claim_nft"),
+    metadata: metadata,
+  };
+}
+
+/** Data of the claim NFTs minted when unstaking. */
+export const unstakeDataCodec = struct({
+  name: string,
+  claim_epoch: u64,
+  claim_amount: decimal,
+});
+
+const poolTypes: PoolType[] = [
+  "OneResourcePool",
+  "TwoResourcePool",
+  "MultiResourcePool",
+];
+
+/**
+ * Computes the value of pool units from the details of their pool. Returns undefined when the
+ * entity is not a native pool of this pool unit.
+ * @param pool Details of the pool component, with its fungible resources.
+ * @param poolUnitAddress Address of the pool unit resource.
+ * @param amount Amount of pool units.
+ * @param poolUnitSupply Total supply of the pool unit resource.
+ */
+export function parsePoolUnitRedemption(
+  pool: StateEntityDetailsResponseItem,
+  poolUnitAddress: string,
+  amount: Decimal,
+  poolUnitSupply: Decimal,
+): PoolUnitRedemption | undefined {
+  const details = pool.details;
+  if (details?.type !== "Component") {
+    return undefined;
+  }
+  const poolType = poolTypes.find((type) => type === details.blueprint_name);
+  const poolUnit = toEntityMetadata(pool.metadata.items).get("pool_unit");
+  if (
+    !poolType ||
+    poolUnit?.value.type !== "GlobalAddress" ||
+    poolUnit.value.value !== poolUnitAddress
+  ) {
+    return undefined;
+  }
+
+  let redeemable = new Map<string, Decimal>();
+  pool.fungible_resources?.items.forEach((item) => {
+    if (item.aggregation_level === "Global") {
+      redeemable.set(
+        item.resource_address,
+        poolUnitSupply.gt(0)
+          ? Decimal.from(item.amount).mulDiv(amount, poolUnitSupply)
+          : Decimal.ZERO,
+      );
+    }
+  });
+
+  return {
+    pool: pool.address,
+    poolType: poolType,
+    poolUnitAddress: poolUnitAddress,
+    amount: amount,
+    poolUnitSupply: poolUnitSupply,
+    redeemable: redeemable,
+  };
+}
+
+/**
+ * Computes the changes between two snapshots of the holdings of an entity.
+ * @param before Holdings at the first point.
+ * @param after Holdings at the second point.
+ */
+export function diffHoldings(before: Holdings, after: Holdings): HoldingsDiff {
+  const amounts = (holdings: Holdings) =>
+    new Map(
+      holdings.fungibles.map((resource) => [
+        resource.address,
+        resource.amountHeld,
+      ]),
+    );
+  const ids = (holdings: Holdings) =>
+    new Map(
+      holdings.nonFungibles.map((resource) => [
+        resource.address,
+        new Set(resource.idsHeld),
+      ]),
+    );
+
+  const amountsBefore = amounts(before);
+  const amountsAfter = amounts(after);
+  let fungibles: FungibleHoldingChange[] = [];
+  new Set([...amountsBefore.keys(), ...amountsAfter.keys()]).forEach(
+    (address) => {
+      const held = amountsBefore.get(address) || Decimal.ZERO;
+      const nowHeld = amountsAfter.get(address) || Decimal.ZERO;
+      if (!held.eq(nowHeld)) {
+        fungibles.push({
+          address: address,
+          before: held,
+          after: nowHeld,
+          change: nowHeld.minus(held),
+        });
+      }
+    },
+  );
+
+  const idsBefore = ids(before);
+  const idsAfter = ids(after);
+  let nonFungibles: NonFungibleHoldingChange[] = [];
+  new Set([...idsBefore.keys(), ...idsAfter.keys()]).forEach((address) => {
+    const held = idsBefore.get(address) || new Set<string>();
+    const nowHeld = idsAfter.get(address) || new Set<string>();
+    const added = [...nowHeld].filter((id) => !held.has(id));
+    const removed = [...held].filter((id) => !nowHeld.has(id));
+    if (added.length > 0 || removed.length > 0) {
+      nonFungibles.push({ address: address, added: added, removed: removed });
+    }
+  });
+
+  return { fungibles: fungibles, nonFungibles: nonFungibles };
+}
+
+export function isAccountAddress(address: string): boolean {
+  return address.startsWith("account_");
+}
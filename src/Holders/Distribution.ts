@@ -0,0 +1,75 @@
+import { Decimal } from "../Decimal/Decimal";
+import {
+  Distribution,
+  DistributionOptions,
+  DistributionRule,
+} from "./HolderTypes";
+
+function weightOf(rule: DistributionRule, balance: Decimal): Decimal {
+  switch (rule.type) {
+    case "ProRata": {
+      return balance;
+    }
+    case "Tiered": {
+      let weight = Decimal.ZERO;
+      let reached: Decimal | undefined = undefined;
+      rule.tiers.forEach((tier) => {
+        if (
+          balance.gte(tier.minimumBalance) &&
+          (reached === undefined || tier.minimumBalance.gt(reached))
+        ) {
+          reached = tier.minimumBalance;
+          weight = tier.weight;
+        }
+      });
+      return weight;
+    }
+    case "MinimumBalance": {
+      if (balance.lt(rule.minimumBalance)) {
+        return Decimal.ZERO;
+      }
+      return rule.split === "Equal" ? Decimal.ONE : balance;
+    }
+  }
+}
+
+/**
+ * Shares a reward pool between holders following a distribution rule.
+ * @param holders Balance of each holder, by address.
+ * @param options Reward pool, rule, rounding and exclusions.
+ */
+export function calculateDistribution(
+  holders: Map<string, Decimal>,
+  options: DistributionOptions,
+): Distribution {
+  const excluded = new Set(options.exclude ? options.exclude : []);
+  let weights = new Map<string, Decimal>();
+  holders.forEach((balance, holder) => {
+    const weight = weightOf(options.rule, balance);
+    if (!excluded.has(holder) && weight.gt(0)) {
+      weights.set(holder, weight);
+    }
+  });
+  const totalWeight = [...weights.values()].reduce(
+    (total, weight) => total.plus(weight),
+    Decimal.ZERO,
+  );
+
+  let amounts = new Map<string, Decimal>();
+  let distributed = Decimal.ZERO;
+  weights.forEach((weight, holder) => {
+    const amount = options.rewardPool
+      .mulDiv(weight, totalWeight)
+      .roundTo(options.divisibility);
+    if (amount.gt(0)) {
+      amounts.set(holder, amount);
+      distributed = distributed.plus(amount);
+    }
+  });
+
+  return {
+    amounts: amounts,
+    distributed: distributed,
+    remainder: options.rewardPool.minus(distributed),
+  };
+}
@@ -0,0 +1,43 @@
+import { CollectionHoldersSnapshot } from "./HolderTypes";
+
+function csvField(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Formats a collection snapshot as CSV, with one row per holder and the ids separated by spaces.
+ * @param snapshot Snapshot of the holders of a collection.
+ */
+export function collectionHoldersToCsv(
+  snapshot: CollectionHoldersSnapshot,
+): string {
+  let rows = ["holder,count,ids"];
+  snapshot.holders.forEach((ids, holder) => {
+    rows.push(
+      [holder, ids.length.toString(), ids.join(" ")].map(csvField).join(","),
+    );
+  });
+  return rows.join("\n") + "\n";
+}
+
+/**
+ * Formats a collection snapshot as JSON.
+ * @param snapshot Snapshot of the holders of a collection.
+ */
+export function collectionHoldersToJson(
+  snapshot: CollectionHoldersSnapshot,
+): string {
+  return JSON.stringify(
+    {
+      resourceAddress: snapshot.resourceAddress,
+      stateVersion: snapshot.stateVersion,
+      holderCount: snapshot.holderCount,
+      idCount: snapshot.idCount,
+      holders: Object.fromEntries(snapshot.holders),
+      unresolvedIds: snapshot.unresolvedIds,
+      excludedHolders: Object.fromEntries(snapshot.excludedHolders),
+    },
+    null,
+    2,
+  );
+}
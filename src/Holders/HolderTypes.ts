@@ -0,0 +1,82 @@
+import { Decimal } from "../Decimal/Decimal";
+
+export type SnapshotOptions = {
+  /** State version, or timestamp resolved to the state version at that time. Default is the current state. */
+  atLedgerState?: number | Date | string;
+  /** Leave out holders that are not accounts, such as DEX or escrow components. */
+  excludeComponents?: boolean;
+};
+
+/**
+ * Holders of the items of a non-fungible collection at a given state version.
+ */
+export type CollectionHoldersSnapshot = {
+  resourceAddress: string;
+  stateVersion: number;
+  /** Ids held by each holder, by global address of the holder. */
+  holders: Map<string, string[]>;
+  holderCount: number;
+  /** Number of ids attributed to a holder. */
+  idCount: number;
+  /** Ids with no holder: burned, or not in a vault at that state. */
+  unresolvedIds: string[];
+  /** Ids held by the components left out of the snapshot, by holder. */
+  excludedHolders: Map<string, string[]>;
+};
+
+/**
+ * Holders of a fungible resource, with their balances, at a given state version.
+ */
+export type FungibleHoldersSnapshot = {
+  resourceAddress: string;
+  stateVersion: number;
+  /** Balance of each holder, by global address of the holder. */
+  holders: Map<string, Decimal>;
+  holderCount: number;
+  /** Sum of the balances of the holders. */
+  totalHeld: Decimal;
+  /** Balances of the components left out of the snapshot, by holder. */
+  excludedHolders: Map<string, Decimal>;
+  /**
+   * True when the snapshot is pinned to a state older than the current state: holders that emptied
+   * their vaults since cannot be found and are missing. Always false for unpinned snapshots.
+   */
+  incomplete: boolean;
+};
+
+/**
+ * Rule to share a reward pool between holders.
+ * - ProRata: in proportion to the balances.
+ * - Tiered: in proportion to the weight of the highest tier reached by each balance.
+ * - MinimumBalance: only to holders with at least the minimum balance, in proportion to the
+ * balances or in equal parts.
+ */
+export type DistributionRule =
+  | { type: "ProRata" }
+  | {
+      type: "Tiered";
+      tiers: { minimumBalance: Decimal; weight: Decimal }[];
+    }
+  | {
+      type: "MinimumBalance";
+      minimumBalance: Decimal;
+      split?: "ProRata" | "Equal";
+    };
+
+export type DistributionOptions = {
+  /** Total amount to distribute. */
+  rewardPool: Decimal;
+  rule: DistributionRule;
+  /** Divisibility of the reward resource. Amounts are rounded down to it. */
+  divisibility: number;
+  /** Holders that get no reward. */
+  exclude?: string[];
+};
+
+export type Distribution = {
+  /** Amount of each holder, by address. Holders with nothing to receive are left out. */
+  amounts: Map<string, Decimal>;
+  distributed: Decimal;
+  /** Part of the reward pool left by rounding, or with no eligible holder. */
+  remainder: Decimal;
+};
@@ -1,4 +1,4 @@
-import { Decimal } from "../Types/RadixTypes";
+import { Decimal, DecimalLike } from "../Decimal/Decimal";
 import { NFT } from "../Types/NFT";
 
 /**
@@ -29,6 +29,15 @@ export function manifestArray(typeName: string, content: string[]): string {
   return `Array<${typeName}>(${arrayToString(content)})`;
 }
 
+/**
+ * Returns a manifest string representation of a blob reference.
+ * @param blobHash - The hex-encoded hash of the blob.
+ * @returns Manifest representation of the blob reference.
+ */
+export function manifestBlob(blobHash: string): string {
+  return `Blob("${blobHash}")`;
+}
+
 /**
  * Returns a manifest string representation of a bucket.
  * @param bucketName - The bucket name.
@@ -40,11 +49,11 @@ export function manifestBucket(bucketName: string): string {
 
 /**
  * Returns a manifest string representation of a decimal.
- * @param {Decimal} decimal - The decimal object.
+ * @param {DecimalLike} decimal - The decimal value, truncated to 18 decimal places.
  * @returns Manifest representation of the decimal.
  */
-export function manifestDecimal(decimal: Decimal): string {
-  return `Decimal("${decimal}")`;
+export function manifestDecimal(decimal: DecimalLike): string {
+  return `Decimal("${Decimal.from(decimal)}")`;
 }
 
 /**
@@ -106,6 +115,29 @@ export function manifestMap(
   return `Map<${keyType}, ${valueType}>(${arrayToString(content)})`;
 }
 
+/**
+ * Returns a manifest string representation of the initial metadata of an entity, with string values.
+ * @param {Map<string, string>} metadata - The metadata fields and their values.
+ * @param locked - Whether the fields are locked. Default is false.
+ * @returns Manifest representation of the metadata init.
+ */
+export function manifestMetadataInit(
+  metadata: Map<string, string>,
+  locked?: boolean,
+): string {
+  const entries = new Map<string, string>();
+  for (const [key, value] of metadata.entries()) {
+    entries.set(
+      manifestString(key),
+      manifestTuple([
+        `Some(Enum<Metadata::String>(${manifestString(value)}))`,
+        locked ? "true" : "false",
+      ]),
+    );
+  }
+  return manifestMap("String", "Tuple", entries);
+}
+
 /**
  * Returns a manifest string representation of a named address.
  * @param addressName - The name of the address.
@@ -124,6 +156,32 @@ export function manifestNFT(nft: NFT): string {
   return manifestGlobalId(nft.globalId());
 }
 
+/**
+ * Returns a manifest string representation of an owner role.
+ * @param badge - The resource address or non-fungible global ID of the owner badge. No owner when omitted.
+ * @param updatable - Whether the owner can update the owner role. Default is false.
+ * @returns Manifest representation of the owner role.
+ */
+export function manifestOwnerRole(badge?: string, updatable?: boolean): string {
+  if (!badge) {
+    return `Enum<OwnerRole::None>()`;
+  }
+  const variant = updatable ? "OwnerRole::Updatable" : "OwnerRole::Fixed";
+  return `Enum<${variant}>(${manifestRequireRule(badge)})`;
+}
+
+/**
+ * Returns a manifest string representation of an access rule requiring a badge.
+ * @param badge - The resource address or non-fungible global ID of the badge.
+ * @returns Manifest representation of the access rule.
+ */
+export function manifestRequireRule(badge: string): string {
+  const requirement = badge.includes(":")
+    ? `Enum<ResourceOrNonFungible::NonFungible>(${manifestGlobalId(badge)})`
+    : `Enum<ResourceOrNonFungible::Resource>(${manifestAddress(badge)})`;
+  return `Enum<AccessRule::Protected>(Enum<AccessRuleNode::ProofRule>(Enum<ProofRule::Require>(${requirement})))`;
+}
+
 /**
  * Returns a manifest string representation of a proof.
  * @param proofName - The name of the proof.
@@ -1,33 +1,65 @@
-import { Decimal, Fungibles, NonFungibles } from "../Types/RadixTypes";
+import { Fungibles, NonFungibles } from "../Types/RadixTypes";
+import { DecimalLike } from "../Decimal/Decimal";
 import {
   manifestAddress,
   manifestAddressReservation,
+  manifestBlob,
   manifestBucket,
   manifestDecimal,
+  manifestLocalId,
   manifestLocalIdArray,
   manifestMap,
+  manifestMetadataInit,
   manifestNamedAddress,
   manifestProof,
   manifestString,
   manifestTuple,
 } from "./ManifestTypes";
 import { convertToDataArray, convertToDataMap, instruction } from "./Utils";
+import { Codec } from "../Sbor/SborTypes";
+import { WellKnownAddresses } from "../Network/NetworkContext";
+import { validateAddress } from "../Address/Address";
 
 export class StringManifestBuilder {
   private _instructions: string[];
+  private readonly _networkId: number | undefined;
 
-  constructor() {
+  /**
+   * @param networkId Network of the manifest. When provided, every address is validated against
+   * it as soon as its instruction is added.
+   */
+  constructor(networkId?: number) {
     this._instructions = [];
+    this._networkId = networkId;
   }
 
   build(): string {
     return this._instructions.join("\n");
   }
 
-  lockFee(account: string, amount: Decimal): this {
+  lockFee(account: string, amount: DecimalLike): this {
     return this.callMethod(account, "lock_fee", [manifestDecimal(amount)]);
   }
 
+  /**
+   * Locks fees from the faucet of a test network.
+   * @param addresses Well-known addresses of the network.
+   * @param amount Amount of XRD to lock. Default is 10.
+   */
+  lockFeeFromFaucet(addresses: WellKnownAddresses, amount?: DecimalLike): this {
+    return this.callMethod(addresses.faucet, "lock_fee", [
+      manifestDecimal(amount !== undefined ? amount : 10),
+    ]);
+  }
+
+  /**
+   * Puts free XRD from the faucet of a test network on the worktop.
+   * @param addresses Well-known addresses of the network.
+   */
+  freeXrd(addresses: WellKnownAddresses): this {
+    return this.callMethod(addresses.faucet, "free", []);
+  }
+
   depositBatch(account: string): this {
     return this.callMethod(account, "deposit_batch", [
       `Expression("ENTIRE_WORKTOP")`,
@@ -55,7 +87,7 @@ export class StringManifestBuilder {
   proofOfAmount(
     account: string,
     resourceAddress: string,
-    amount: Decimal,
+    amount: DecimalLike,
     proofName?: string,
   ): this {
     let ret = this.callMethod(account, "create_proof_of_amount", [
@@ -87,7 +119,7 @@ export class StringManifestBuilder {
   }
 
   addRawInstruction(instruction: string): this {
-    this._instructions.push(instruction);
+    this.push(instruction);
     return this;
   }
 
@@ -105,7 +137,7 @@ export class StringManifestBuilder {
     reservationName: string,
     addressName: string,
   ): this {
-    this._instructions.push(
+    this.push(
       instruction("ALLOCATE_GLOBAL_ADDRESS", [
         manifestAddress(address),
         manifestString(blueprintName),
@@ -122,8 +154,8 @@ export class StringManifestBuilder {
    * @param amount - The required amount.
    * @returns The manifest instruction string for asserting the worktop contains the resource.
    */
-  assertWorktopContains(address: string, amount: Decimal): this {
-    this._instructions.push(
+  assertWorktopContains(address: string, amount: DecimalLike): this {
+    this.push(
       instruction("ASSERT_WORKTOP_CONTAINS", [
         manifestAddress(address),
         manifestDecimal(amount),
@@ -138,7 +170,7 @@ export class StringManifestBuilder {
    * @returns The manifest instruction string for asserting the worktop contains any of the resource.
    */
   assertWorktopContainsAny(address: string): this {
-    this._instructions.push(
+    this.push(
       instruction("ASSERT_WORKTOP_CONTAINS", [manifestAddress(address)]),
     );
     return this;
@@ -151,7 +183,7 @@ export class StringManifestBuilder {
    * @returns The manifest instruction string for asserting the worktop contains the specified non-fungible tokens.
    */
   assertWorktopContainsNonFungibles(address: string, ids: string[]): this {
-    this._instructions.push(
+    this.push(
       instruction("ASSERT_WORKTOP_CONTAINS_NON_FUNGIBLES", [
         manifestAddress(address),
         manifestLocalIdArray(ids),
@@ -166,9 +198,7 @@ export class StringManifestBuilder {
    * @returns The manifest instruction string for burning the resource from the bucket.
    */
   burnResource(bucketName: string): this {
-    this._instructions.push(
-      instruction("BURN_RESOURCE", [manifestBucket(bucketName)]),
-    );
+    this.push(instruction("BURN_RESOURCE", [manifestBucket(bucketName)]));
     return this;
   }
 
@@ -186,7 +216,7 @@ export class StringManifestBuilder {
     functionName: string,
     args: string[],
   ): this {
-    this._instructions.push(
+    this.push(
       instruction(
         "CALL_FUNCTION",
         [
@@ -211,7 +241,7 @@ export class StringManifestBuilder {
     methodName: string,
     args: string[],
   ): this {
-    this._instructions.push(
+    this.push(
       instruction(
         "CALL_METHOD",
         [manifestAddress(componentAddress), manifestString(methodName)].concat(
@@ -228,7 +258,7 @@ export class StringManifestBuilder {
    * @returns The manifest instruction string for claiming component royalties.
    */
   claimComponentRoyalties(componentAddress: string): this {
-    this._instructions.push(
+    this.push(
       instruction("CLAIM_COMPONENT_ROYALTIES", [
         manifestAddress(componentAddress),
       ]),
@@ -242,7 +272,7 @@ export class StringManifestBuilder {
    * @returns The manifest instruction string for claiming package royalties.
    */
   claimPackageRoyalties(packageAddress: string): this {
-    this._instructions.push(
+    this.push(
       instruction("CLAIM_PACKAGE_ROYALTIES", [manifestAddress(packageAddress)]),
     );
     return this;
@@ -255,7 +285,7 @@ export class StringManifestBuilder {
    * @returns The manifest instruction string for cloning the proof.
    */
   cloneProof(originProofName: string, clonedProofName: string): this {
-    this._instructions.push(
+    this.push(
       instruction("CLONE_PROOF", [
         manifestProof(originProofName),
         manifestProof(clonedProofName),
@@ -285,7 +315,7 @@ export class StringManifestBuilder {
     addressReservationName
       ? args.push(`Some(${manifestAddressReservation(addressReservationName)})`)
       : null;
-    this._instructions.push(instruction("CREATE_ACCESS_CONTROLLER", args));
+    this.push(instruction("CREATE_ACCESS_CONTROLLER", args));
     return this;
   }
 
@@ -294,7 +324,7 @@ export class StringManifestBuilder {
    * @returns The manifest instruction string for creating an account.
    */
   createAccount(): this {
-    this._instructions.push(instruction("CREATE_ACCOUNT", []));
+    this.push(instruction("CREATE_ACCOUNT", []));
     return this;
   }
 
@@ -303,7 +333,7 @@ export class StringManifestBuilder {
    * @returns The manifest instruction string for creating an identity.
    */
   createIdentity(): this {
-    this._instructions.push(instruction("CREATE_IDENTITY", []));
+    this.push(instruction("CREATE_IDENTITY", []));
     return this;
   }
 
@@ -317,7 +347,7 @@ export class StringManifestBuilder {
     resourceAddress: string,
     proofName: string,
   ): this {
-    this._instructions.push(
+    this.push(
       instruction("CREATE_PROOF_FROM_AUTH_ZONE_OF_ALL", [
         manifestAddress(resourceAddress),
         manifestProof(proofName),
@@ -335,10 +365,10 @@ export class StringManifestBuilder {
    */
   createProofFromAuthZoneOfAmount(
     resourceAddress: string,
-    amount: Decimal,
+    amount: DecimalLike,
     proofName: string,
   ): this {
-    this._instructions.push(
+    this.push(
       instruction("CREATE_PROOF_FROM_AUTH_ZONE_OF_AMOUNT", [
         manifestAddress(resourceAddress),
         manifestDecimal(amount),
@@ -360,7 +390,7 @@ export class StringManifestBuilder {
     ids: string[],
     proofName: string,
   ): this {
-    this._instructions.push(
+    this.push(
       instruction("CREATE_PROOF_FROM_AUTH_ZONE_OF_NON_FUNGIBLES", [
         manifestAddress(resourceAddress),
         manifestLocalIdArray(ids),
@@ -371,7 +401,7 @@ export class StringManifestBuilder {
   }
 
   createProofFromBucketOfAll(bucketName: string, proofName: string): this {
-    this._instructions.push(
+    this.push(
       instruction("CREATE_PROOF_FROM_AUTH_ZONE_OF_ALL", [
         manifestBucket(bucketName),
         manifestProof(proofName),
@@ -382,10 +412,10 @@ export class StringManifestBuilder {
 
   createProofFromBucketOfAmount(
     bucketName: string,
-    amount: Decimal,
+    amount: DecimalLike,
     proofName: string,
   ): this {
-    this._instructions.push(
+    this.push(
       instruction("CREATE_PROOF_FROM_AUTH_ZONE_OF_ALL", [
         manifestBucket(bucketName),
         manifestDecimal(amount),
@@ -400,7 +430,7 @@ export class StringManifestBuilder {
     ids: string[],
     proofName: string,
   ): this {
-    this._instructions.push(
+    this.push(
       instruction("CREATE_PROOF_FROM_AUTH_ZONE_OF_ALL", [
         manifestBucket(bucketName),
         manifestLocalIdArray(ids),
@@ -415,7 +445,7 @@ export class StringManifestBuilder {
    * @returns The manifest instruction string for dropping all proofs.
    */
   dropAllProofs(): this {
-    this._instructions.push(instruction("DROP_ALL_PROOFS", []));
+    this.push(instruction("DROP_ALL_PROOFS", []));
     return this;
   }
 
@@ -424,27 +454,27 @@ export class StringManifestBuilder {
    * @returns The manifest instruction string for dropping all proofs from the auth zone.
    */
   dropAuthZoneProofs(): this {
-    this._instructions.push(instruction("DROP_AUTH_ZONE_PROOFS", []));
+    this.push(instruction("DROP_AUTH_ZONE_PROOFS", []));
     return this;
   }
 
   dropAuthZoneRegularProofs(): this {
-    this._instructions.push(instruction("DROP_AUTH_ZONE_REGULAR_PROOFS", []));
+    this.push(instruction("DROP_AUTH_ZONE_REGULAR_PROOFS", []));
     return this;
   }
 
   dropAuthZoneSignatureProofs(): this {
-    this._instructions.push(instruction("DROP_AUTH_ZONE_SIGNATURE_PROOFS", []));
+    this.push(instruction("DROP_AUTH_ZONE_SIGNATURE_PROOFS", []));
     return this;
   }
 
   dropNamedProofs(): this {
-    this._instructions.push(instruction("DROP_NAMED_PROOFS", []));
+    this.push(instruction("DROP_NAMED_PROOFS", []));
     return this;
   }
 
   lockComponentRoyalty(componentAddress: string, methodName: string): this {
-    this._instructions.push(
+    this.push(
       instruction("LOCK_COMPONENT_ROYALTY", [
         manifestAddress(componentAddress),
         manifestString(methodName),
@@ -454,7 +484,7 @@ export class StringManifestBuilder {
   }
 
   lockMetadata(entityAddress: string, fieldName: string): this {
-    this._instructions.push(
+    this.push(
       instruction("LOCK_METADATA", [
         manifestAddress(entityAddress),
         manifestString(fieldName),
@@ -469,9 +499,7 @@ export class StringManifestBuilder {
    * @returns The manifest instruction string for locking the owner role.
    */
   lockOwnerRole(entityAddress: string): this {
-    this._instructions.push(
-      instruction("LOCK_OWNER_ROLE", [manifestAddress(entityAddress)]),
-    );
+    this.push(instruction("LOCK_OWNER_ROLE", [manifestAddress(entityAddress)]));
     return this;
   }
 
@@ -481,8 +509,8 @@ export class StringManifestBuilder {
    * @param amount - The amount of fungible tokens to mint.
    * @returns The manifest instruction string for minting fungible tokens.
    */
-  mintFungible(resourceAddress: string, amount: Decimal): this {
-    this._instructions.push(
+  mintFungible(resourceAddress: string, amount: DecimalLike): this {
+    this.push(
       instruction("MINT_FUNGIBLE", [
         manifestAddress(resourceAddress),
         manifestDecimal(amount),
@@ -501,7 +529,7 @@ export class StringManifestBuilder {
     resourceAddress: string,
     idDataMap: Map<string, string[]>,
   ): this {
-    this._instructions.push(
+    this.push(
       instruction("MINT_NON_FUNGIBLE", [
         manifestAddress(resourceAddress),
         manifestMap("NonFungibleLocalId", "Tuple", convertToDataMap(idDataMap)),
@@ -509,6 +537,30 @@ export class StringManifestBuilder {
     );
     return this;
   }
+  /**
+   * Adds an instruction to mint non-fungible tokens with data encoded by a codec.
+   * @param resourceAddress - The resource address.
+   * @param codec - The codec of the non-fungible data.
+   * @param idDataMap - The map of non-fungible IDs to data.
+   * @returns The manifest instruction string for minting non-fungible tokens.
+   */
+  mintTypedNonFungible<T>(
+    resourceAddress: string,
+    codec: Codec<T>,
+    idDataMap: Map<string, T>,
+  ): this {
+    const entries = new Map<string, string>();
+    idDataMap.forEach((data, id) =>
+      entries.set(manifestLocalId(id), manifestTuple([codec.encode(data)])),
+    );
+    this.push(
+      instruction("MINT_NON_FUNGIBLE", [
+        manifestAddress(resourceAddress),
+        manifestMap("NonFungibleLocalId", "Tuple", entries),
+      ]),
+    );
+    return this;
+  }
 
   /**
    * Adds an instruction to mint RUID non-fungible tokens.
@@ -517,7 +569,7 @@ export class StringManifestBuilder {
    * @returns The manifest instruction string for minting non-fungible tokens.
    */
   mintRuidNonFungible(resourceAddress: string, dataArray: string[][]): this {
-    this._instructions.push(
+    this.push(
       instruction("MINT_RUID_NON_FUNGIBLE", [
         manifestAddress(resourceAddress),
         convertToDataArray(dataArray),
@@ -527,15 +579,65 @@ export class StringManifestBuilder {
   }
 
   popFromAuthZone(proofName: string): this {
-    this._instructions.push(
-      instruction("POP_FROM_AUTH_ZONE", [manifestProof(proofName)]),
-    );
+    this.push(instruction("POP_FROM_AUTH_ZONE", [manifestProof(proofName)]));
     return this;
   }
 
   pushToAuthZone(proofName: string): this {
-    this._instructions.push(
-      instruction("PUSH_TO_AUTH_ZONE", [manifestProof(proofName)]),
+    this.push(instruction("PUSH_TO_AUTH_ZONE", [manifestProof(proofName)]));
+    return this;
+  }
+
+  /**
+   * Adds an instruction to publish a package.
+   * @param codeBlobHash - The hash of the blob holding the WASM code.
+   * @param definition - The manifest representation of the package definition.
+   * @param {Map<string, string>} metadata - The optional metadata of the package.
+   * @returns The manifest instruction string for publishing the package.
+   */
+  publishPackage(
+    codeBlobHash: string,
+    definition: string,
+    metadata?: Map<string, string>,
+  ): this {
+    this.push(
+      instruction("PUBLISH_PACKAGE", [
+        definition,
+        manifestBlob(codeBlobHash),
+        manifestMetadataInit(metadata ? metadata : new Map()),
+      ]),
+    );
+    return this;
+  }
+
+  /**
+   * Adds an instruction to publish a package with an owner role.
+   * @param ownerRole - The manifest representation of the owner role.
+   * @param codeBlobHash - The hash of the blob holding the WASM code.
+   * @param definition - The manifest representation of the package definition.
+   * @param {Map<string, string>} metadata - The optional metadata of the package.
+   * @param lockMetadata - Whether the metadata is locked. Default is false.
+   * @param addressReservationName - The optional address reservation name.
+   * @returns The manifest instruction string for publishing the package.
+   */
+  publishPackageAdvanced(
+    ownerRole: string,
+    codeBlobHash: string,
+    definition: string,
+    metadata?: Map<string, string>,
+    lockMetadata?: boolean,
+    addressReservationName?: string,
+  ): this {
+    this.push(
+      instruction("PUBLISH_PACKAGE_ADVANCED", [
+        ownerRole,
+        definition,
+        manifestBlob(codeBlobHash),
+        manifestMetadataInit(metadata ? metadata : new Map(), lockMetadata),
+        addressReservationName
+          ? `Some(${manifestAddressReservation(addressReservationName)})`
+          : "None",
+      ]),
     );
     return this;
   }
@@ -546,8 +648,8 @@ export class StringManifestBuilder {
    * @param amount - The amount to recall.
    * @returns The manifest instruction string for recalling resources from the vault.
    */
-  recall(vaultAddress: string, amount: Decimal): this {
-    this._instructions.push(
+  recall(vaultAddress: string, amount: DecimalLike): this {
+    this.push(
       instruction("RECALL_FROM_VAULT", [
         manifestAddress(vaultAddress),
         manifestDecimal(amount),
@@ -557,7 +659,7 @@ export class StringManifestBuilder {
   }
 
   recallNonFungibles(vaultAddress: string, ids: string[]): this {
-    this._instructions.push(
+    this.push(
       instruction("RECALL_NON_FUNGIBLES_FROM_VAULT", [
         manifestAddress(vaultAddress),
         manifestLocalIdArray(ids),
@@ -567,7 +669,7 @@ export class StringManifestBuilder {
   }
 
   removeMetadata(resourceAddress: string, fieldName: string): this {
-    this._instructions.push(
+    this.push(
       instruction("REMOVE_METADATA", [
         manifestAddress(resourceAddress),
         manifestString(fieldName),
@@ -582,23 +684,21 @@ export class StringManifestBuilder {
    * @returns The manifest instruction string for returning resources to the worktop.
    */
   returnToWorktop(bucketName: string): this {
-    this._instructions.push(
-      instruction("RETURN_TO_WORKTOP", [manifestBucket(bucketName)]),
-    );
+    this.push(instruction("RETURN_TO_WORKTOP", [manifestBucket(bucketName)]));
     return this;
   }
 
   setComponentRoyalty(
     componentAddress: string,
     methodName: string,
-    amount: Decimal,
+    amount: DecimalLike,
   ) {
     const royaltyArg =
       amount.toString() == "0"
         ? `Enum<RoyaltyAmount::Free>()`
         : "Enum<RoyaltyAmount::Xrd>(${amount})";
 
-    this._instructions.push(
+    this.push(
       instruction("SET_COMPONENT_ROYALTY", [
         manifestAddress(componentAddress),
         manifestString(methodName),
@@ -609,7 +709,7 @@ export class StringManifestBuilder {
   }
 
   takeAllFromWorktop(resourceAddress: string, bucketName: string): this {
-    this._instructions.push(
+    this.push(
       instruction("TAKE_ALL_FROM_WORKTOP", [
         manifestAddress(resourceAddress),
         manifestBucket(bucketName),
@@ -627,10 +727,10 @@ export class StringManifestBuilder {
    */
   takeFromWorktop(
     resourceAddress: string,
-    amount: Decimal,
+    amount: DecimalLike,
     bucketName: string,
   ): this {
-    this._instructions.push(
+    this.push(
       instruction("TAKE_FROM_WORKTOP", [
         manifestAddress(resourceAddress),
         manifestDecimal(amount),
@@ -645,7 +745,7 @@ export class StringManifestBuilder {
     ids: string[],
     bucketName: string,
   ): this {
-    this._instructions.push(
+    this.push(
       instruction("TAKE_NON_FUNGIBLES_FROM_WORKTOP", [
         manifestAddress(resourceAddress),
         manifestLocalIdArray(ids),
@@ -654,4 +754,15 @@ export class StringManifestBuilder {
     );
     return this;
   }
+
+  private push(instruction: string) {
+    if (this._networkId !== undefined) {
+      for (const match of instruction.matchAll(
+        /(?<!Named)Address\("([^"]*)"\)/g,
+      )) {
+        validateAddress(match[1]!, { networkId: this._networkId });
+      }
+    }
+    this._instructions.push(instruction);
+  }
 }
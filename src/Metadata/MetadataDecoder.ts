@@ -0,0 +1,175 @@
+import BigNumber from "bignumber.js";
+import { Decimal } from "../Decimal/Decimal";
+import {
+  EntityMetadataItem,
+  MetadataTypedValue,
+  PublicKey as GatewayPublicKey,
+  PublicKeyHash as GatewayPublicKeyHash,
+} from "@radixdlt/babylon-gateway-api-sdk";
+import { Convert, PublicKey } from "@radixdlt/radix-engine-toolkit";
+import {
+  EntityMetadata,
+  MetadataEntry,
+  MetadataValue,
+  PublicKeyHash,
+} from "./MetadataTypes";
+
+/**
+ * Decodes a typed metadata value as returned by the Gateway.
+ * @param typed Typed value of a metadata item.
+ */
+export function decodeMetadataValue(typed: MetadataTypedValue): MetadataValue {
+  switch (typed.type) {
+    case "String":
+    case "Url":
+    case "Origin":
+    case "GlobalAddress":
+    case "NonFungibleLocalId": {
+      return { type: typed.type, value: typed.value };
+    }
+    case "NonFungibleGlobalId": {
+      return {
+        type: typed.type,
+        value: `${typed.resource_address}:${typed.non_fungible_id}`,
+      };
+    }
+    case "Bool": {
+      return { type: typed.type, value: typed.value };
+    }
+    case "U8":
+    case "U32":
+    case "I32": {
+      return { type: typed.type, value: parseInt(typed.value) };
+    }
+    case "U64":
+    case "I64": {
+      return { type: typed.type, value: new BigNumber(typed.value) };
+    }
+    case "Decimal": {
+      return { type: typed.type, value: Decimal.from(typed.value) };
+    }
+    case "PublicKey": {
+      return { type: typed.type, value: toPublicKey(typed.value) };
+    }
+    case "PublicKeyHash": {
+      return { type: typed.type, value: toPublicKeyHash(typed.value) };
+    }
+    case "Instant": {
+      return {
+        type: typed.type,
+        value: new Date(parseInt(typed.unix_timestamp_seconds) * 1000),
+      };
+    }
+    case "U8Array": {
+      return {
+        type: typed.type,
+        value: Convert.HexString.toUint8Array(typed.value_hex),
+      };
+    }
+    case "StringArray":
+    case "UrlArray":
+    case "OriginArray":
+    case "GlobalAddressArray":
+    case "NonFungibleLocalIdArray": {
+      return { type: typed.type, value: typed.values };
+    }
+    case "NonFungibleGlobalIdArray": {
+      return {
+        type: typed.type,
+        value: typed.values.map(
+          (id) => `${id.resource_address}:${id.non_fungible_id}`,
+        ),
+      };
+    }
+    case "BoolArray": {
+      return { type: typed.type, value: typed.values };
+    }
+    case "U32Array":
+    case "I32Array": {
+      return {
+        type: typed.type,
+        value: typed.values.map((value) => parseInt(value)),
+      };
+    }
+    case "U64Array":
+    case "I64Array": {
+      return {
+        type: typed.type,
+        value: typed.values.map((value) => new BigNumber(value)),
+      };
+    }
+    case "DecimalArray": {
+      return {
+        type: typed.type,
+        value: typed.values.map((value) => Decimal.from(value)),
+      };
+    }
+    case "PublicKeyArray": {
+      return { type: typed.type, value: typed.values.map(toPublicKey) };
+    }
+    case "PublicKeyHashArray": {
+      return { type: typed.type, value: typed.values.map(toPublicKeyHash) };
+    }
+    case "InstantArray": {
+      return {
+        type: typed.type,
+        value: typed.values_unix_timestamp_seconds.map(
+          (seconds) => new Date(parseInt(seconds) * 1000),
+        ),
+      };
+    }
+  }
+}
+
+/**
+ * Decodes metadata items into a map from keys to entries.
+ * @param items Metadata items as returned by the Gateway.
+ */
+export function toEntityMetadata(items: EntityMetadataItem[]): EntityMetadata {
+  let metadata: EntityMetadata = new Map<string, MetadataEntry>();
+  items.forEach((item) => {
+    metadata.set(item.key, {
+      key: item.key,
+      value: decodeMetadataValue(item.value.typed),
+      isLocked: item.is_locked,
+      lastUpdatedAtStateVersion: item.last_updated_at_state_version,
+    });
+  });
+  return metadata;
+}
+
+/**
+ * Returns the value of a metadata entry if it is a string, a URL or an origin.
+ * @param metadata Metadata of an entity.
+ * @param key Key of the entry.
+ */
+export function metadataString(
+  metadata: EntityMetadata,
+  key: string,
+): string | undefined {
+  const entry = metadata.get(key);
+  switch (entry?.value.type) {
+    case "String":
+    case "Url":
+    case "Origin": {
+      return entry.value.value;
+    }
+    default: {
+      return undefined;
+    }
+  }
+}
+
+function toPublicKey(publicKey: GatewayPublicKey): PublicKey {
+  const bytes = Convert.HexString.toUint8Array(publicKey.key_hex);
+  return publicKey.key_type === "EcdsaSecp256k1"
+    ? new PublicKey.Secp256k1(bytes)
+    : new PublicKey.Ed25519(bytes);
+}
+
+function toPublicKeyHash(hash: GatewayPublicKeyHash): PublicKeyHash {
+  return {
+    curve: hash.key_hash_type === "EcdsaSecp256k1" ? "Secp256k1" : "Ed25519",
+    hashHex: hash.hash_hex,
+  };
+}
@@ -0,0 +1,60 @@
+import BigNumber from "bignumber.js";
+import { Decimal } from "../Decimal/Decimal";
+import { PublicKey } from "@radixdlt/radix-engine-toolkit";
+
+export type PublicKeyHash = {
+  curve: "Secp256k1" | "Ed25519";
+  hashHex: string;
+};
+
+/**
+ * Decoded metadata value, tagged with its Radix metadata type.
+ * Global ids are formatted as `resource_address:local_id`, byte arrays are Uint8Arrays.
+ */
+export type MetadataValue =
+  | {
+      type:
+        | "String"
+        | "Url"
+        | "Origin"
+        | "GlobalAddress"
+        | "NonFungibleGlobalId"
+        | "NonFungibleLocalId";
+      value: string;
+    }
+  | { type: "Bool"; value: boolean }
+  | { type: "U8" | "U32" | "I32"; value: number }
+  | { type: "U64" | "I64"; value: BigNumber }
+  | { type: "Decimal"; value: Decimal }
+  | { type: "PublicKey"; value: PublicKey }
+  | { type: "PublicKeyHash"; value: PublicKeyHash }
+  | { type: "Instant"; value: Date }
+  | { type: "U8Array"; value: Uint8Array }
+  | {
+      type:
+        | "StringArray"
+        | "UrlArray"
+        | "OriginArray"
+        | "GlobalAddressArray"
+        | "NonFungibleGlobalIdArray"
+        | "NonFungibleLocalIdArray";
+      value: string[];
+    }
+  | { type: "BoolArray"; value: boolean[] }
+  | { type: "U32Array" | "I32Array"; value: number[] }
+  | { type: "U64Array" | "I64Array"; value: BigNumber[] }
+  | { type: "DecimalArray"; value: Decimal[] }
+  | { type: "PublicKeyArray"; value: PublicKey[] }
+  | { type: "PublicKeyHashArray"; value: PublicKeyHash[] }
+  | { type: "InstantArray"; value: Date[] };
+
+export type MetadataEntry = {
+  key: string;
+  value: MetadataValue;
+  /** Whether the entry can no longer be updated. */
+  isLocked: boolean;
+  lastUpdatedAtStateVersion: number;
+};
+
+/** Metadata of an entity, by key. */
+export type EntityMetadata = Map<string, MetadataEntry>;
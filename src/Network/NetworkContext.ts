@@ -0,0 +1,151 @@
+import { NetworkId, RadixEngineToolkit } from "@radixdlt/radix-engine-toolkit";
+
+export type WellKnownAddresses = {
+  xrd: string;
+  faucet: string;
+  accountPackage: string;
+  identityPackage: string;
+  consensusManager: string;
+};
+
+export type NetworkDefinition = {
+  networkId: number;
+  /** Suffix of the HRPs of the addresses on the network, such as `rdx` or `tdx_2_`. */
+  hrpSuffix: string;
+  /** Base URL of the Gateway of the network, if any. */
+  gatewayUrl?: string;
+};
+
+export class UnknownNetworkError extends Error {
+  readonly networkId: number;
+
+  constructor(networkId: number) {
+    super(`Unknown network id ${networkId}, register it first`);
+    this.name = "UnknownNetworkError";
+    this.networkId = networkId;
+
+    Object.setPrototypeOf(this, UnknownNetworkError.prototype);
+  }
+}
+
+/**
+ * Registry entry of a Radix network, with its Gateway and well-known addresses.
+ */
+export class NetworkContext {
+  private static readonly _registry = new Map<number, NetworkContext>();
+
+  private readonly _definition: NetworkDefinition;
+  private _wellKnownAddresses: Promise<WellKnownAddresses> | undefined;
+
+  private constructor(definition: NetworkDefinition) {
+    this._definition = definition;
+    this._wellKnownAddresses = undefined;
+  }
+
+  /**
+   * Registers a network, replacing any network registered with the same id.
+   * @param definition Id, HRP suffix and Gateway URL of the network.
+   */
+  static register(definition: NetworkDefinition): NetworkContext {
+    const context = new NetworkContext(definition);
+    NetworkContext._registry.set(definition.networkId, context);
+    return context;
+  }
+
+  /**
+   * Registers a network running locally.
+   * @param gatewayUrl Base URL of the local Gateway. Default is `http://localhost:5308/`.
+   * @param networkId Id of the local network. Default is the toolkit LocalNet id.
+   */
+  static registerLocal(
+    gatewayUrl?: string,
+    networkId?: number,
+  ): NetworkContext {
+    return NetworkContext.register({
+      networkId: networkId !== undefined ? networkId : NetworkId.LocalNet,
+      hrpSuffix: "loc",
+      gatewayUrl: gatewayUrl ? gatewayUrl : "http://localhost:5308/",
+    });
+  }
+
+  /**
+   * Returns the registered network with the given id.
+   * @param networkId Id of the network.
+   * @throws UnknownNetworkError if no network is registered with this id.
+   */
+  static get(networkId: number): NetworkContext {
+    const context = NetworkContext._registry.get(networkId);
+    if (!context) {
+      throw new UnknownNetworkError(networkId);
+    }
+    return context;
+  }
+
+  /**
+   * Returns the registered network using the given HRP suffix, if any.
+   * @param hrpSuffix Suffix of the HRPs of the addresses on the network.
+   */
+  static findByHrpSuffix(hrpSuffix: string): NetworkContext | undefined {
+    for (const context of NetworkContext._registry.values()) {
+      if (context.hrpSuffix() === hrpSuffix) {
+        return context;
+      }
+    }
+    return undefined;
+  }
+
+  networkId(): number {
+    return this._definition.networkId;
+  }
+
+  hrpSuffix(): string {
+    return this._definition.hrpSuffix;
+  }
+
+  /**
+   * Returns the Gateway URL of the network.
+   * @throws Error if the network has no Gateway URL.
+   */
+  gatewayUrl(): string {
+    const url = this._definition.gatewayUrl;
+    if (!url) {
+      throw new Error(`No Gateway URL for network ${this.networkId()}`);
+    }
+    return url;
+  }
+
+  /**
+   * Returns the well-known addresses of the network, derived once by the toolkit.
+   */
+  async wellKnownAddresses(): Promise<WellKnownAddresses> {
+    if (!this._wellKnownAddresses) {
+      this._wellKnownAddresses = RadixEngineToolkit.Utils.knownAddresses(
+        this.networkId(),
+      ).then((known) => {
+        return {
+          xrd: known.resourceAddresses.xrd,
+          faucet: known.componentAddresses.faucet,
+          accountPackage: known.packageAddresses.accountPackage,
+          identityPackage: known.packageAddresses.identityPackage,
+          consensusManager: known.componentAddresses.consensusManager,
+        };
+      });
+      // Derive the addresses again on the next call if this one failed
+      this._wellKnownAddresses.catch(() => {
+        this._wellKnownAddresses = undefined;
+      });
+    }
+    return this._wellKnownAddresses;
+  }
+}
+
+NetworkContext.register({
+  networkId: NetworkId.Mainnet,
+  hrpSuffix: "rdx",
+  gatewayUrl: "https://mainnet.radixdlt.com/",
+});
+NetworkContext.register({
+  networkId: NetworkId.Stokenet,
+  hrpSuffix: "tdx_2_",
+  gatewayUrl: "https://babylon-stokenet-gateway.radixdlt.com/",
+});
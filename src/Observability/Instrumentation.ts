@@ -0,0 +1,33 @@
+export type RequestEvent = {
+  /** Name of the Gateway call, such as `entityDetails`. */
+  endpoint: string;
+  /** Number of the attempt, starting at 1. */
+  attempt: number;
+};
+
+export type ResponseEvent = RequestEvent & {
+  /** Duration of the attempt, in milliseconds. */
+  duration: number;
+};
+
+export type RetryEvent = ResponseEvent & {
+  error: unknown;
+  /** Delay before the next attempt, in milliseconds. */
+  delay: number;
+};
+
+export type GiveUpEvent = ResponseEvent & {
+  error: unknown;
+  /** Time spent on every attempt, in milliseconds. */
+  totalDuration: number;
+};
+
+/**
+ * Hooks called around every call to the Gateway. Errors thrown by hooks are logged and ignored.
+ */
+export type Instrumentation = {
+  onRequest?: (event: RequestEvent) => void;
+  onResponse?: (event: ResponseEvent) => void;
+  onRetry?: (event: RetryEvent) => void;
+  onGiveUp?: (event: GiveUpEvent) => void;
+};
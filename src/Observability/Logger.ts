@@ -0,0 +1,32 @@
+/**
+ * Destination of the messages logged by the toolkit.
+ */
+export interface Logger {
+  debug(message: string, context?: unknown): void;
+  info(message: string, context?: unknown): void;
+  warn(message: string, context?: unknown): void;
+  error(message: string, context?: unknown): void;
+}
+
+function toConsole(
+  write: (...data: unknown[]) => void,
+): (message: string, context?: unknown) => void {
+  return (message, context) =>
+    context !== undefined ? write(message, context) : write(message);
+}
+
+/** Logger writing to the console. */
+export const consoleLogger: Logger = {
+  debug: toConsole(console.debug),
+  info: toConsole(console.info),
+  warn: toConsole(console.warn),
+  error: toConsole(console.error),
+};
+
+/** Logger discarding every message. */
+export const silentLogger: Logger = {
+  debug: () => {},
+  info: () => {},
+  warn: () => {},
+  error: () => {},
+};
@@ -0,0 +1,124 @@
+import {
+  GiveUpEvent,
+  Instrumentation,
+  RequestEvent,
+  ResponseEvent,
+  RetryEvent,
+} from "./Instrumentation";
+
+export type LatencySummary = {
+  p50: number;
+  p90: number;
+  p99: number;
+  max: number;
+  mean: number;
+};
+
+export type EndpointMetrics = {
+  /** Number of attempts made, retries included. */
+  requests: number;
+  successes: number;
+  retries: number;
+  giveUps: number;
+  /** Latency of the successful attempts, in milliseconds. Undefined before the first success. */
+  latency?: LatencySummary;
+};
+
+type EndpointSamples = {
+  requests: number;
+  successes: number;
+  retries: number;
+  giveUps: number;
+  durations: number[];
+};
+
+/**
+ * Instrumentation keeping per-endpoint counts and latencies in memory.
+ */
+export class MetricsCollector implements Instrumentation {
+  private readonly _maxSamples: number;
+  private _endpoints: Map<string, EndpointSamples>;
+
+  /**
+   * Constructs a new MetricsCollector instance.
+   * @param maxSamples Number of latency samples kept per endpoint, the oldest being dropped first. Default is 10000.
+   */
+  constructor(maxSamples?: number) {
+    this._maxSamples = maxSamples ? maxSamples : 10000;
+    this._endpoints = new Map<string, EndpointSamples>();
+  }
+
+  onRequest = (event: RequestEvent) => {
+    this.endpoint(event.endpoint).requests++;
+  };
+
+  onResponse = (event: ResponseEvent) => {
+    const samples = this.endpoint(event.endpoint);
+    samples.successes++;
+    samples.durations.push(event.duration);
+    if (samples.durations.length > this._maxSamples) {
+      samples.durations.shift();
+    }
+  };
+
+  onRetry = (event: RetryEvent) => {
+    this.endpoint(event.endpoint).retries++;
+  };
+
+  onGiveUp = (event: GiveUpEvent) => {
+    this.endpoint(event.endpoint).giveUps++;
+  };
+
+  /**
+   * Returns the metrics collected so far, by endpoint.
+   */
+  metrics(): Map<string, EndpointMetrics> {
+    let metrics = new Map<string, EndpointMetrics>();
+    this._endpoints.forEach((samples, endpoint) => {
+      metrics.set(endpoint, {
+        requests: samples.requests,
+        successes: samples.successes,
+        retries: samples.retries,
+        giveUps: samples.giveUps,
+        latency: summarize(samples.durations),
+      });
+    });
+    return metrics;
+  }
+
+  reset() {
+    this._endpoints = new Map<string, EndpointSamples>();
+  }
+
+  private endpoint(endpoint: string): EndpointSamples {
+    let samples = this._endpoints.get(endpoint);
+    if (!samples) {
+      samples = {
+        requests: 0,
+        successes: 0,
+        retries: 0,
+        giveUps: 0,
+        durations: [],
+      };
+      this._endpoints.set(endpoint, samples);
+    }
+    return samples;
+  }
+}
+
+function summarize(durations: number[]): LatencySummary | undefined {
+  if (durations.length === 0) {
+    return undefined;
+  }
+  const sorted = [...durations].sort((a, b) => a - b);
+  // Nearest-rank percentile
+  const percentile = (p: number) =>
+    sorted[Math.max(0, Math.ceil((p / 100) * sorted.length) - 1)]!;
+  return {
+    p50: percentile(50),
+    p90: percentile(90),
+    p99: percentile(99),
+    max: sorted[sorted.length - 1]!,
+    mean: sorted.reduce((total, d) => total + d, 0) / sorted.length,
+  };
+}
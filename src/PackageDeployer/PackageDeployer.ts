@@ -0,0 +1,176 @@
+import {
+  Convert,
+  hash,
+  PrivateKey,
+  RadixEngineToolkit,
+  SerializationMode,
+  TransactionManifest,
+} from "@radixdlt/radix-engine-toolkit";
+import { GatewayProcessor } from "../GatewayProcessor/GatewayProcessor";
+import { StringManifestBuilder } from "../ManifestBuilder/StringManifestBuilder";
+import { manifestOwnerRole } from "../ManifestBuilder/ManifestTypes";
+import { encodeManifestValue } from "../Sbor/SborEncoder";
+import { Signer } from "../Signer/Signer";
+import {
+  SubmitManifestOptions,
+  TransactionReceipt,
+} from "../Types/Transaction";
+
+export type PackageFiles = {
+  /** Content of the `.wasm` file. */
+  code: Uint8Array;
+  /** Content of the `.rpd` file, the SBOR-encoded package definition. */
+  definition: Uint8Array;
+};
+
+export type PublishPackageOptions = SubmitManifestOptions & {
+  /** Resource address or non-fungible global ID of the owner badge. Publishes with PUBLISH_PACKAGE when omitted. */
+  ownerBadge?: string;
+  /** Whether the owner can update the owner role. Default is false. */
+  ownerUpdatable?: boolean;
+  /** Metadata of the package. */
+  metadata?: Map<string, string>;
+  /** Whether the metadata is locked. Only applies with an owner badge. Default is false. */
+  lockMetadata?: boolean;
+};
+
+export type PublishedPackage = {
+  packageAddress: string;
+  receipt: TransactionReceipt;
+};
+
+/**
+ * Publishes Scrypto packages: builds the publishing manifest with the code as blob,
+ * submits it and reads the address of the new package from the receipt.
+ */
+export class PackageDeployer {
+  private readonly _processor: GatewayProcessor;
+
+  /**
+   * Constructs a new PackageDeployer instance.
+   * @param processor GatewayProcessor used to submit the transactions.
+   */
+  constructor(processor: GatewayProcessor) {
+    this._processor = processor;
+  }
+
+  /**
+   * Reads the files of a compiled package. Only available in Node.
+   * @param wasmPath Path of the `.wasm` file.
+   * @param rpdPath Path of the `.rpd` file.
+   */
+  public static async readPackage(
+    wasmPath: string,
+    rpdPath: string,
+  ): Promise<PackageFiles> {
+    const { readFile } = await import("fs/promises");
+    const [code, definition] = await Promise.all([
+      readFile(wasmPath),
+      readFile(rpdPath),
+    ]);
+    return {
+      code: new Uint8Array(code),
+      definition: new Uint8Array(definition),
+    };
+  }
+
+  /**
+   * Computes the hash under which a blob is referenced in a manifest.
+   * @param blob Content of the blob.
+   * @returns The hex-encoded hash.
+   */
+  public static blobHash(blob: Uint8Array): string {
+    return Convert.Uint8Array.toHexString(hash(blob));
+  }
+
+  /**
+   * Builds the manifest publishing a package.
+   * @param files Code and definition of the package.
+   * @param networkId Network where the package is published.
+   * @param options Owner role and metadata of the package.
+   * @returns The manifest, with the code as blob.
+   */
+  async manifest(
+    files: PackageFiles,
+    networkId: number,
+    options?: PublishPackageOptions,
+  ): Promise<TransactionManifest> {
+    const codeHash = PackageDeployer.blobHash(files.code);
+    const definition = await definitionToManifestValue(
+      files.definition,
+      networkId,
+    );
+
+    const builder = new StringManifestBuilder();
+    if (options?.ownerBadge) {
+      builder.publishPackageAdvanced(
+        manifestOwnerRole(options.ownerBadge, options.ownerUpdatable),
+        codeHash,
+        definition,
+        options.metadata,
+        options.lockMetadata,
+      );
+    } else {
+      builder.publishPackage(codeHash, definition, options?.metadata);
+    }
+
+    return {
+      instructions: { kind: "String", value: builder.build() },
+      blobs: [files.code],
+    };
+  }
+
+  /**
+   * Publishes a package and waits for the transaction to be committed.
+   * Fees must be locked, e.g. with the `autoLockFee` option.
+   * @param files Code and definition of the package.
+   * @param networkId Network where to publish.
+   * @param privateKey Private Key or Signer of the submitting account.
+   * @param options Owner role and metadata of the package, and submission options.
+   * @returns A promise resolving to the address of the new package and the transaction receipt.
+   */
+  async publish(
+    files: PackageFiles,
+    networkId: number,
+    privateKey: PrivateKey | Signer,
+    options?: PublishPackageOptions,
+  ): Promise<PublishedPackage> {
+    const manifest = await this.manifest(files, networkId, options);
+    const receipt = await this._processor.submitManifest(
+      manifest,
+      networkId,
+      privateKey,
+      options,
+    );
+    if (!receipt.success) {
+      throw new Error(
+        `Package publishing failed with error: ${receipt.errorMessage}`,
+      );
+    }
+
+    const packageAddress = receipt.createdEntities.packages[0];
+    if (!packageAddress) {
+      throw new Error(
+        `No package found in the receipt of ${receipt.intentHash}`,
+      );
+    }
+    return { packageAddress: packageAddress, receipt: receipt };
+  }
+}
+
+/**
+ * Converts the content of a `.rpd` file to its manifest representation. The definition is encoded
+ * with Scrypto SBOR, whose custom kinds (decimals, references...) differ from Manifest SBOR: it is
+ * decoded to programmatic JSON, then re-encoded as a manifest value.
+ */
+async function definitionToManifestValue(
+  definition: Uint8Array,
+  networkId: number,
+): Promise<string> {
+  const json = await RadixEngineToolkit.ScryptoSbor.decodeToString(
+    definition,
+    networkId,
+    SerializationMode.Programmatic,
+  );
+  return encodeManifestValue(JSON.parse(json));
+}
@@ -0,0 +1,199 @@
+import BigNumber from "bignumber.js";
+import { Decimal } from "../Decimal/Decimal";
+import { ProgrammaticScryptoSborValue } from "@radixdlt/babylon-gateway-api-sdk";
+import {
+  manifestAddress,
+  manifestArray,
+  manifestDecimal,
+  manifestLocalId,
+  manifestMap,
+  manifestTuple,
+} from "../ManifestBuilder/ManifestTypes";
+import { Codec, CodecType, SborCodecError } from "./SborTypes";
+
+type ValueOfKind<K extends ProgrammaticScryptoSborValue["kind"]> = Extract<
+  ProgrammaticScryptoSborValue,
+  { kind: K }
+>;
+
+function expectKind<K extends ProgrammaticScryptoSborValue["kind"]>(
+  value: ProgrammaticScryptoSborValue,
+  kind: K,
+  path: string,
+): ValueOfKind<K> {
+  if (value.kind !== kind) {
+    throw new SborCodecError(path, `expected ${kind}, found ${value.kind}`);
+  }
+  return value as ValueOfKind<K>;
+}
+
+function smallInteger(
+  kind: "I8" | "I16" | "I32" | "U8" | "U16" | "U32",
+  min: number,
+  max: number,
+): Codec<number> {
+  return {
+    kind: kind,
+    decode: (value, path = "$") =>
+      parseInt(expectKind(value, kind, path).value),
+    encode: (value) => {
+      if (!Number.isInteger(value) || value < min || value > max) {
+        throw new SborCodecError("$", `${value} is not a valid ${kind}`);
+      }
+      return `${value}${kind.toLowerCase()}`;
+    },
+  };
+}
+
+function largeInteger(kind: "I64" | "I128" | "U64" | "U128"): Codec<BigNumber> {
+  return {
+    kind: kind,
+    decode: (value, path = "$") =>
+      new BigNumber(expectKind(value, kind, path).value),
+    encode: (value) => `${value.toFixed()}${kind.toLowerCase()}`,
+  };
+}
+
+export const bool: Codec<boolean> = {
+  kind: "Bool",
+  decode: (value, path = "$") => expectKind(value, "Bool", path).value,
+  encode: (value) => (value ? "true" : "false"),
+};
+
+export const u8 = smallInteger("U8", 0, 2 ** 8 - 1);
+export const u16 = smallInteger("U16", 0, 2 ** 16 - 1);
+export const u32 = smallInteger("U32", 0, 2 ** 32 - 1);
+export const i8 = smallInteger("I8", -(2 ** 7), 2 ** 7 - 1);
+export const i16 = smallInteger("I16", -(2 ** 15), 2 ** 15 - 1);
+export const i32 = smallInteger("I32", -(2 ** 31), 2 ** 31 - 1);
+export const u64 = largeInteger("U64");
+export const u128 = largeInteger("U128");
+export const i64 = largeInteger("I64");
+export const i128 = largeInteger("I128");
+
+export const decimal: Codec<Decimal> = {
+  kind: "Decimal",
+  decode: (value, path = "$") =>
+    Decimal.from(expectKind(value, "Decimal", path).value),
+  encode: (value) => manifestDecimal(value),
+};
+
+export const string: Codec<string> = {
+  kind: "String",
+  decode: (value, path = "$") => expectKind(value, "String", path).value,
+  encode: (value) => `"${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`,
+};
+
+export const address: Codec<string> = {
+  kind: "Address",
+  decode: (value, path = "$") => expectKind(value, "Reference", path).value,
+  encode: (value) => manifestAddress(value),
+};
+
+export const nonFungibleLocalId: Codec<string> = {
+  kind: "NonFungibleLocalId",
+  decode: (value, path = "$") =>
+    expectKind(value, "NonFungibleLocalId", path).value,
+  encode: (value) => manifestLocalId(value),
+};
+
+/**
+ * Codec of an optional value, `Option<T>` in Scrypto. None is decoded to null.
+ * @param inner Codec of the value.
+ */
+export function option<T>(inner: Codec<T>): Codec<T | null> {
+  return {
+    kind: "Enum",
+    decode: (value, path = "$") => {
+      const decoded = expectKind(value, "Enum", path);
+      if (decoded.variant_id === "0") {
+        return null;
+      }
+      if (decoded.variant_id !== "1" || decoded.fields.length !== 1) {
+        throw new SborCodecError(path, "expected an Option");
+      }
+      return inner.decode(decoded.fields[0]!, path);
+    },
+    encode: (value) =>
+      value === null ? "None" : `Some(${inner.encode(value)})`,
+  };
+}
+
+/**
+ * Codec of a list of values, `Vec<T>` in Scrypto.
+ * @param inner Codec of the elements.
+ */
+export function vec<T>(inner: Codec<T>): Codec<T[]> {
+  return {
+    kind: "Array",
+    decode: (value, path = "$") =>
+      expectKind(value, "Array", path).elements.map((element, i) =>
+        inner.decode(element, `${path}[${i}]`),
+      ),
+    encode: (value) =>
+      manifestArray(
+        inner.kind,
+        value.map((element) => inner.encode(element)),
+      ),
+  };
+}
+
+/**
+ * Codec of a map, `IndexMap<K, V>` or `HashMap<K, V>` in Scrypto.
+ * @param key Codec of the keys.
+ * @param value Codec of the values.
+ */
+export function map<K, V>(key: Codec<K>, value: Codec<V>): Codec<Map<K, V>> {
+  return {
+    kind: "Map",
+    decode: (toDecode, path = "$") =>
+      new Map(
+        expectKind(toDecode, "Map", path).entries.map((entry, i) => [
+          key.decode(entry.key, `${path}.keys[${i}]`),
+          value.decode(entry.value, `${path}.values[${i}]`),
+        ]),
+      ),
+    encode: (toEncode) => {
+      const entries = new Map<string, string>();
+      toEncode.forEach((v, k) => entries.set(key.encode(k), value.encode(v)));
+      return manifestMap(key.kind, value.kind, entries);
+    },
+  };
+}
+
+/**
+ * Codec of a struct. Fields are matched by name when the Gateway provides them, and by position
+ * otherwise, so the declaration order must follow the Scrypto struct.
+ * @param fields Codecs of the fields, in declaration order.
+ */
+export function struct<F extends Record<string, Codec<unknown>>>(
+  fields: F,
+): Codec<{ [K in keyof F]: CodecType<F[K]> }> {
+  const names = Object.keys(fields);
+  return {
+    kind: "Tuple",
+    decode: (value, path = "$") => {
+      const tuple = expectKind(value, "Tuple", path);
+      if (tuple.fields.length !== names.length) {
+        throw new SborCodecError(
+          path,
+          `expected ${names.length} fields, found ${tuple.fields.length}`,
+        );
+      }
+      let decoded: Record<string, unknown> = {};
+      names.forEach((name, i) => {
+        const field = tuple.fields[i]!;
+        if (field.field_name && field.field_name !== name) {
+          throw new SborCodecError(
+            path,
+            `expected field ${name}, found ${field.field_name}`,
+          );
+        }
+        decoded[name] = fields[name]!.decode(field, `${path}.${name}`);
+      });
+      return decoded as { [K in keyof F]: CodecType<F[K]> };
+    },
+    encode: (value) =>
+      manifestTuple(names.map((name) => fields[name]!.encode(value[name]))),
+  };
+}
@@ -0,0 +1,77 @@
+import BigNumber from "bignumber.js";
+import { Decimal } from "../Decimal/Decimal";
+import { ProgrammaticScryptoSborValue } from "@radixdlt/babylon-gateway-api-sdk";
+import { SborEnum, SborStruct, SborValue } from "./SborTypes";
+
+/**
+ * Decodes the programmatic JSON of an SBOR value into native JS values.
+ * @param value Programmatic JSON of the value, as returned by the Gateway.
+ * @returns The decoded value, see SborValue for the mapping.
+ */
+export function decodeSbor(value: ProgrammaticScryptoSborValue): SborValue {
+  switch (value.kind) {
+    case "Array": {
+      return value.elements.map(decodeSbor);
+    }
+    case "Bool": {
+      return value.value;
+    }
+    case "Bytes": {
+      return value.hex;
+    }
+    case "Decimal": {
+      return Decimal.from(value.value);
+    }
+    case "PreciseDecimal":
+    case "I128":
+    case "I64":
+    case "U128":
+    case "U64": {
+      return new BigNumber(value.value);
+    }
+    case "I32":
+    case "I16":
+    case "I8":
+    case "U32":
+    case "U16":
+    case "U8": {
+      return parseInt(value.value);
+    }
+    case "Enum": {
+      if (value.type_name === "Option") {
+        return value.variant_name === "Some"
+          ? decodeSbor(value.fields[0]!)
+          : null;
+      }
+      const decoded: SborEnum = {
+        variant: value.variant_name ? value.variant_name : value.variant_id,
+        fields: value.fields.map(decodeSbor),
+      };
+      return decoded;
+    }
+    case "Map": {
+      return new Map(
+        value.entries.map((entry) => [
+          decodeSbor(entry.key),
+          decodeSbor(entry.value),
+        ]),
+      );
+    }
+    case "NonFungibleLocalId":
+    case "Own":
+    case "Reference":
+    case "String": {
+      return value.value;
+    }
+    case "Tuple": {
+      if (value.fields.length > 0 && value.fields.every((f) => f.field_name)) {
+        let decoded: SborStruct = {};
+        value.fields.forEach((field) => {
+          decoded[field.field_name!] = decodeSbor(field);
+        });
+        return decoded;
+      }
+      return value.fields.map(decodeSbor);
+    }
+  }
+}
@@ -0,0 +1,114 @@
+import { ProgrammaticScryptoSborValue } from "@radixdlt/babylon-gateway-api-sdk";
+import {
+  manifestAddress,
+  manifestArray,
+  manifestEnum,
+  manifestLocalId,
+  manifestMap,
+  manifestTuple,
+} from "../ManifestBuilder/ManifestTypes";
+import { string } from "./SborCodecs";
+import { SborCodecError } from "./SborTypes";
+
+/**
+ * Encodes the programmatic JSON of a Scrypto SBOR value to its manifest representation.
+ * References become addresses; owned entities have no manifest equivalent and are rejected.
+ * @param value Programmatic JSON of the value, as returned by the Gateway or the toolkit.
+ * @param path Path of the value, used in error messages.
+ * @returns Manifest representation of the value.
+ * @throws SborCodecError if the value contains an owned entity.
+ */
+export function encodeManifestValue(
+  value: ProgrammaticScryptoSborValue,
+  path: string = "$",
+): string {
+  switch (value.kind) {
+    case "Array": {
+      return manifestArray(
+        manifestKind(value.element_kind, path),
+        value.elements.map((element, i) =>
+          encodeManifestValue(element, `${path}[${i}]`),
+        ),
+      );
+    }
+    case "Bool": {
+      return value.value ? "true" : "false";
+    }
+    case "Bytes": {
+      return `Bytes("${value.hex}")`;
+    }
+    case "Decimal":
+    case "PreciseDecimal": {
+      return `${value.kind}("${value.value}")`;
+    }
+    case "Enum": {
+      return manifestEnum(
+        parseInt(value.variant_id),
+        value.fields.map((field, i) =>
+          encodeManifestValue(field, `${path}.${i}`),
+        ),
+      );
+    }
+    case "I8":
+    case "I16":
+    case "I32":
+    case "I64":
+    case "I128":
+    case "U8":
+    case "U16":
+    case "U32":
+    case "U64":
+    case "U128": {
+      return `${value.value}${value.kind.toLowerCase()}`;
+    }
+    case "Map": {
+      const entries = new Map<string, string>();
+      value.entries.forEach((entry, i) => {
+        entries.set(
+          encodeManifestValue(entry.key, `${path}{${i}}`),
+          encodeManifestValue(entry.value, `${path}[${i}]`),
+        );
+      });
+      return manifestMap(
+        manifestKind(value.key_kind, path),
+        manifestKind(value.value_kind, path),
+        entries,
+      );
+    }
+    case "NonFungibleLocalId": {
+      return manifestLocalId(value.value);
+    }
+    case "Own": {
+      throw new SborCodecError(path, "owned entities cannot be encoded");
+    }
+    case "Reference": {
+      return manifestAddress(value.value);
+    }
+    case "String": {
+      return string.encode(value.value);
+    }
+    case "Tuple": {
+      return manifestTuple(
+        value.fields.map((field, i) =>
+          encodeManifestValue(field, `${path}.${i}`),
+        ),
+      );
+    }
+  }
+}
+
+function manifestKind(
+  kind: ProgrammaticScryptoSborValue["kind"],
+  path: string,
+): string {
+  switch (kind) {
+    case "Bytes":
+      return "Array";
+    case "Reference":
+      return "Address";
+    case "Own":
+      throw new SborCodecError(path, "owned entities cannot be encoded");
+    default:
+      return kind;
+  }
+}
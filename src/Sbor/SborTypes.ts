@@ -0,0 +1,71 @@
+import BigNumber from "bignumber.js";
+import { Decimal } from "../Decimal/Decimal";
+import { ProgrammaticScryptoSborValue } from "@radixdlt/babylon-gateway-api-sdk";
+
+/**
+ * Native JS representation of an SBOR value:
+ * - tuples with named fields are objects, other tuples and arrays are arrays;
+ * - decimals are Decimals, precise decimals and 64 or 128-bit integers are BigNumbers, smaller
+ *   integers are numbers;
+ * - options are their value or null, other enums are SborEnum;
+ * - maps are Maps;
+ * - addresses, local ids, strings and bytes (in hex) are strings.
+ */
+export type SborValue =
+  | boolean
+  | number
+  | string
+  | Decimal
+  | BigNumber
+  | null
+  | SborValue[]
+  | SborStruct
+  | SborEnum
+  | Map<SborValue, SborValue>;
+
+export type SborStruct = {
+  [field: string]: SborValue;
+};
+
+export type SborEnum = {
+  variant: string;
+  fields: SborValue[];
+};
+
+/**
+ * Typed codec of an SBOR value, decoding it from the Gateway programmatic JSON and encoding it
+ * to a manifest value.
+ */
+export interface Codec<T> {
+  /** Manifest name of the value kind, used for the element types of arrays and maps. */
+  readonly kind: string;
+
+  /**
+   * Decodes a value, checking its shape.
+   * @param value Programmatic JSON of the value.
+   * @param path Location of the value in the decoded data, for error messages.
+   * @throws SborCodecError if the value does not match the codec.
+   */
+  decode(value: ProgrammaticScryptoSborValue, path?: string): T;
+
+  /**
+   * Encodes a value to its manifest representation.
+   * @param value Value to encode.
+   */
+  encode(value: T): string;
+}
+
+/** Type of the values handled by a codec. */
+export type CodecType<C> = C extends Codec<infer T> ? T : never;
+
+export class SborCodecError extends Error {
+  readonly path: string;
+
+  constructor(path: string, message: string) {
+    super(`${path}: ${message}`);
+    this.name = "SborCodecError";
+    this.path = path;
+
+    Object.setPrototypeOf(this, SborCodecError.prototype);
+  }
+}
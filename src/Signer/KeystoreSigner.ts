@@ -0,0 +1,175 @@
+import {
+  Convert,
+  Curve,
+  PrivateKey,
+  PublicKey,
+  Signature,
+} from "@radixdlt/radix-engine-toolkit";
+import { Signer } from "./Signer";
+
+export type Keystore = {
+  version: 1;
+  curve: Curve;
+  publicKey: string;
+  kdf: {
+    name: "PBKDF2";
+    hash: "SHA-256";
+    iterations: number;
+    salt: string;
+  };
+  cipher: {
+    name: "AES-GCM";
+    iv: string;
+  };
+  ciphertext: string;
+};
+
+/**
+ * Signer backed by a passphrase-encrypted keystore. The private key is only decrypted for the
+ * time of each signature.
+ */
+export class KeystoreSigner implements Signer {
+  private readonly _keystore: Keystore;
+  private readonly _passphrase: () => Promise<string>;
+
+  /**
+   * Constructs a new KeystoreSigner instance.
+   * @param keystore Encrypted keystore.
+   * @param passphrase Passphrase of the keystore, or a function providing it when a signature is needed.
+   */
+  constructor(
+    keystore: Keystore,
+    passphrase: string | (() => Promise<string>),
+  ) {
+    this._keystore = keystore;
+    this._passphrase =
+      typeof passphrase === "string" ? async () => passphrase : passphrase;
+  }
+
+  /**
+   * Encrypts a private key into a keystore.
+   * @param privateKey Private key to encrypt.
+   * @param passphrase Passphrase to derive the encryption key from.
+   * @param iterations Number of PBKDF2 iterations. Default is 600000.
+   */
+  public static async encrypt(
+    privateKey: PrivateKey,
+    passphrase: string,
+    iterations?: number,
+  ): Promise<Keystore> {
+    const salt = crypto.getRandomValues(new Uint8Array(16));
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const kdfIterations = iterations ? iterations : 600000;
+    const key = await deriveKey(passphrase, salt, kdfIterations);
+    const ciphertext = await crypto.subtle.encrypt(
+      { name: "AES-GCM", iv: iv },
+      key,
+      privateKey.bytes,
+    );
+    return {
+      version: 1,
+      curve: privateKey.curve,
+      publicKey: privateKey.publicKeyHex(),
+      kdf: {
+        name: "PBKDF2",
+        hash: "SHA-256",
+        iterations: kdfIterations,
+        salt: Convert.Uint8Array.toHexString(salt),
+      },
+      cipher: { name: "AES-GCM", iv: Convert.Uint8Array.toHexString(iv) },
+      ciphertext: Convert.Uint8Array.toHexString(new Uint8Array(ciphertext)),
+    };
+  }
+
+  /**
+   * Creates a signer from a keystore file. Only available in Node.
+   * @param path Path of the JSON keystore file.
+   * @param passphrase Passphrase of the keystore, or a function providing it.
+   */
+  public static async fromFile(
+    path: string,
+    passphrase: string | (() => Promise<string>),
+  ): Promise<KeystoreSigner> {
+    const { readFile } = await import("fs/promises");
+    const keystore = JSON.parse(await readFile(path, "utf-8")) as Keystore;
+    return new KeystoreSigner(keystore, passphrase);
+  }
+
+  /**
+   * Encrypts a private key into a keystore file. Only available in Node.
+   * @param path Path of the JSON keystore file to write.
+   * @param privateKey Private key to encrypt.
+   * @param passphrase Passphrase to derive the encryption key from.
+   */
+  public static async writeFile(
+    path: string,
+    privateKey: PrivateKey,
+    passphrase: string,
+  ): Promise<void> {
+    const { writeFile } = await import("fs/promises");
+    const keystore = await KeystoreSigner.encrypt(privateKey, passphrase);
+    await writeFile(path, JSON.stringify(keystore, null, 2), { mode: 0o600 });
+  }
+
+  async publicKey(): Promise<PublicKey> {
+    const bytes = Convert.HexString.toUint8Array(this._keystore.publicKey);
+    return this._keystore.curve === "Secp256k1"
+      ? new PublicKey.Secp256k1(bytes)
+      : new PublicKey.Ed25519(bytes);
+  }
+
+  async signToSignature(hash: Uint8Array): Promise<Signature> {
+    const bytes = await this.decrypt();
+    try {
+      const privateKey =
+        this._keystore.curve === "Secp256k1"
+          ? new PrivateKey.Secp256k1(bytes)
+          : new PrivateKey.Ed25519(bytes);
+      return privateKey.signToSignature(hash);
+    } finally {
+      bytes.fill(0);
+    }
+  }
+
+  private async decrypt(): Promise<Uint8Array> {
+    const key = await deriveKey(
+      await this._passphrase(),
+      Convert.HexString.toUint8Array(this._keystore.kdf.salt),
+      this._keystore.kdf.iterations,
+    );
+    try {
+      const plaintext = await crypto.subtle.decrypt(
+        {
+          name: "AES-GCM",
+          iv: Convert.HexString.toUint8Array(this._keystore.cipher.iv),
+        },
+        key,
+        Convert.HexString.toUint8Array(this._keystore.ciphertext),
+      );
+      return new Uint8Array(plaintext);
+    } catch (err) {
+      throw new Error("Could not decrypt keystore: wrong passphrase?");
+    }
+  }
+}
+
+async function deriveKey(
+  passphrase: string,
+  salt: Uint8Array,
+  iterations: number,
+): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(passphrase),
+    "PBKDF2",
+    false,
+    ["deriveKey"],
+  );
+  return crypto.subtle.deriveKey(
+    { name: "PBKDF2", hash: "SHA-256", salt: salt, iterations: iterations },
+    material,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"],
+  );
+}
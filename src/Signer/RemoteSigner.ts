@@ -0,0 +1,71 @@
+import {
+  Convert,
+  Curve,
+  PublicKey,
+  Signature,
+} from "@radixdlt/radix-engine-toolkit";
+import { Signer } from "./Signer";
+
+/**
+ * Signer delegating signatures to a remote signing service over HTTP.
+ * The service is expected to answer:
+ * - `GET {url}/public-key` with `{ curve, publicKey }`, the public key in hex;
+ * - `POST {url}/sign` with body `{ hash }` in hex, with `{ signature }` in hex.
+ */
+export class RemoteSigner implements Signer {
+  private readonly _url: string;
+  private readonly _headers: Record<string, string>;
+  private _publicKey: PublicKey | undefined;
+
+  /**
+   * Constructs a new RemoteSigner instance.
+   * @param url Base URL of the signing service.
+   * @param headers Additional headers to send with every request, e.g. for authentication.
+   */
+  constructor(url: string, headers?: Record<string, string>) {
+    this._url = url.replace(/\/+$/, "");
+    this._headers = headers || {};
+    this._publicKey = undefined;
+  }
+
+  async publicKey(): Promise<PublicKey> {
+    if (!this._publicKey) {
+      const response = await this.request("GET", "/public-key");
+      const bytes = Convert.HexString.toUint8Array(response.publicKey);
+      this._publicKey =
+        (response.curve as Curve) === "Secp256k1"
+          ? new PublicKey.Secp256k1(bytes)
+          : new PublicKey.Ed25519(bytes);
+    }
+    return this._publicKey;
+  }
+
+  async signToSignature(hash: Uint8Array): Promise<Signature> {
+    const publicKey = await this.publicKey();
+    const response = await this.request("POST", "/sign", {
+      hash: Convert.Uint8Array.toHexString(hash),
+    });
+    const bytes = Convert.HexString.toUint8Array(response.signature);
+    return publicKey.curve === "Secp256k1"
+      ? new Signature.Secp256k1(bytes)
+      : new Signature.Ed25519(bytes);
+  }
+
+  private async request(
+    method: "GET" | "POST",
+    path: string,
+    body?: object,
+  ): Promise<Record<string, string>> {
+    const response = await fetch(this._url + path, {
+      method: method,
+      headers: { "content-type": "application/json", ...this._headers },
+      body: body ? JSON.stringify(body) : undefined,
+    });
+    if (!response.ok) {
+      throw new Error(
+        `Remote signer answered ${response.status} to ${method} ${path}`,
+      );
+    }
+    return response.json();
+  }
+}
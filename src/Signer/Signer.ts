@@ -0,0 +1,68 @@
+import {
+  PrivateKey,
+  PublicKey,
+  Signature,
+  SignatureWithPublicKey,
+} from "@radixdlt/radix-engine-toolkit";
+
+/**
+ * Source of signatures for transactions. Implementations may keep the key in memory, in an
+ * encrypted keystore or behind a remote signing service.
+ */
+export interface Signer {
+  /**
+   * Returns the public key matching the signatures produced.
+   */
+  publicKey(): Promise<PublicKey>;
+
+  /**
+   * Signs a hash.
+   * @param hash Hash to sign.
+   * @returns A promise resolving to the signature of the hash.
+   */
+  signToSignature(hash: Uint8Array): Promise<Signature>;
+}
+
+/**
+ * Signer keeping a private key in process memory.
+ */
+export class LocalSigner implements Signer {
+  private readonly _privateKey: PrivateKey;
+
+  constructor(privateKey: PrivateKey) {
+    this._privateKey = privateKey;
+  }
+
+  async publicKey(): Promise<PublicKey> {
+    return this._privateKey.publicKey();
+  }
+
+  async signToSignature(hash: Uint8Array): Promise<Signature> {
+    return this._privateKey.signToSignature(hash);
+  }
+}
+
+/**
+ * Wraps a private key into a LocalSigner, leaving other signers untouched.
+ * @param key Private key or signer.
+ */
+export function toSigner(key: PrivateKey | Signer): Signer {
+  return key instanceof PrivateKey ? new LocalSigner(key) : key;
+}
+
+/**
+ * Signs a hash and attaches the public key when the curve requires it, as intent signatures need.
+ * @param signer Signer to sign with.
+ * @param hash Hash to sign.
+ */
+export async function signToSignatureWithPublicKey(
+  signer: Signer,
+  hash: Uint8Array,
+): Promise<SignatureWithPublicKey> {
+  const signature = await signer.signToSignature(hash);
+  if (signature.curve === "Secp256k1") {
+    return new SignatureWithPublicKey.Secp256k1(signature.bytes);
+  }
+  const publicKey = await signer.publicKey();
+  return new SignatureWithPublicKey.Ed25519(signature.bytes, publicKey.bytes);
+}
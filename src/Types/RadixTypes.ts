@@ -1,11 +1,14 @@
-import BigNumber from "bignumber.js";
-import { EntityMetadataItemValue } from "@radixdlt/babylon-gateway-api-sdk";
-
-export type Decimal = number | string | BigNumber;
+import {
+  EntityMetadataItemValue,
+  NonFungibleIdType,
+} from "@radixdlt/babylon-gateway-api-sdk";
+import { SborValue } from "../Sbor/SborTypes";
+import { EntityMetadata } from "../Metadata/MetadataTypes";
+import { Decimal, DecimalLike } from "../Decimal/Decimal";
 
 export type Fungibles = {
   address: string;
-  amount: Decimal;
+  amount: DecimalLike;
 };
 
 export type NonFungibles = {
@@ -34,7 +37,9 @@ export type FungibleResource = {
   description?: string;
   icon?: string;
   symbol?: string;
-  amountHeld: number;
+  amountHeld: Decimal;
+  /** Underlying resources redeemable for the amount held, when the resource is a pool unit. */
+  poolUnit?: PoolUnitRedemption;
 };
 
 export type NonFungibleResource = {
@@ -45,6 +50,33 @@ export type NonFungibleResource = {
   idsHeld: string[];
 };
 
+export type Holdings = {
+  fungibles: FungibleResource[];
+  nonFungibles: NonFungibleResource[];
+};
+
+export type FungibleHoldingChange = {
+  address: string;
+  before: Decimal;
+  after: Decimal;
+  change: Decimal;
+};
+
+export type NonFungibleHoldingChange = {
+  address: string;
+  added: string[];
+  removed: string[];
+};
+
+/**
+ * Changes of the holdings of an entity between two points of the ledger. Resources held in the
+ * same amount at both points are left out.
+ */
+export type HoldingsDiff = {
+  fungibles: FungibleHoldingChange[];
+  nonFungibles: NonFungibleHoldingChange[];
+};
+
 export type ResourceInformation =
   | {
       type: "Fungible";
@@ -56,20 +88,62 @@ export type ResourceInformation =
     };
 
 export type FungibleResourceInformation = {
+  /** Value of the `name` metadata, empty when the resource has none. */
   name: string;
   address: string;
   description?: string;
   icon?: string;
   symbol?: string;
   otherMetadata: Map<string, EntityMetadataItemValue>;
+  /** Every metadata entry of the resource, decoded. */
+  metadata?: EntityMetadata;
+  totalSupply: Decimal;
+  divisibility: number;
+  behaviours: ResourceBehaviours;
 };
 
 export type NonFungibleResourceInformation = {
+  /** Value of the `name` metadata, empty when the resource has none. */
   name: string;
   address: string;
   description?: string;
   icon?: string;
   otherMetadata: Map<string, EntityMetadataItemValue>;
+  /** Every metadata entry of the resource, decoded. */
+  metadata?: EntityMetadata;
+  totalSupply: Decimal;
+  idType: NonFungibleIdType;
+  /** Fields of the non-fungible data that can be updated after minting. */
+  mutableDataFields: string[];
+  behaviours: ResourceBehaviours;
+};
+
+/**
+ * Behaviours of a resource, derived from its role assignments. A behaviour is flagged when it is
+ * currently allowed to someone, or when the rule controlling it can still be updated.
+ */
+export type ResourceBehaviours = {
+  mintable: boolean;
+  burnable: boolean;
+  freezable: boolean;
+  recallable: boolean;
+  restrictedWithdraw: boolean;
+  restrictedDeposit: boolean;
+};
+
+export type PoolType = "OneResourcePool" | "TwoResourcePool" | "MultiResourcePool";
+
+/**
+ * Value of an amount of pool units: their share of each vault of the pool.
+ */
+export type PoolUnitRedemption = {
+  pool: string;
+  poolType: PoolType;
+  poolUnitAddress: string;
+  amount: Decimal;
+  poolUnitSupply: Decimal;
+  /** Redeemable amount of each underlying resource, by resource address. */
+  redeemable: Map<string, Decimal>;
 };
 
 export type NonFungibleItem = {
@@ -77,13 +151,16 @@ export type NonFungibleItem = {
   name?: string;
   description?: string;
   imageUrl?: string;
+  /** Other data fields, flattened to strings. */
   nonFungibleData?: Map<string, string>;
+  /** Complete data of the item, decoded to native values. */
+  structuredData?: SborValue;
 };
 
 export const defaultFungibleResource: FungibleResource = {
   name: "",
   address: "",
-  amountHeld: 0,
+  amountHeld: Decimal.ZERO,
 };
 
 export const defaultNonFungibleResource: NonFungibleResource = {
@@ -92,10 +169,22 @@ export const defaultNonFungibleResource: NonFungibleResource = {
   idsHeld: [],
 };
 
+export const defaultResourceBehaviours: ResourceBehaviours = {
+  mintable: false,
+  burnable: false,
+  freezable: false,
+  recallable: false,
+  restrictedWithdraw: false,
+  restrictedDeposit: false,
+};
+
 export const defaultFungibleResourceInformation: FungibleResourceInformation = {
   address: "",
   name: "",
   otherMetadata: new Map<string, EntityMetadataItemValue>(),
+  totalSupply: Decimal.ZERO,
+  divisibility: 18,
+  behaviours: defaultResourceBehaviours,
 };
 
 export const defaultNonFungibleResourceInformation: NonFungibleResourceInformation =
@@ -103,4 +192,22 @@ export const defaultNonFungibleResourceInformation: NonFungibleResourceInformati
     address: "",
     name: "",
     otherMetadata: new Map<string, EntityMetadataItemValue>(),
+    totalSupply: Decimal.ZERO,
+    idType: "Integer",
+    mutableDataFields: [],
+    behaviours: defaultResourceBehaviours,
   };
+
+export class InvalidLedgerStateError extends Error {
+  readonly state: string;
+  readonly reason: string;
+
+  constructor(state: string, reason: string) {
+    super(`Invalid ledger state ${state}: ${reason}`);
+    this.name = "InvalidLedgerStateError";
+    this.state = state;
+    this.reason = reason;
+
+    Object.setPrototypeOf(this, InvalidLedgerStateError.prototype);
+  }
+}
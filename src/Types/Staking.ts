@@ -0,0 +1,41 @@
+import { Decimal } from "../Decimal/Decimal";
+import { EntityMetadata } from "../Metadata/MetadataTypes";
+
+export type Validator = {
+  address: string;
+  name?: string;
+  /** XRD staked to the validator. */
+  stake: Decimal;
+  /** Share of the total stake of the active set, when the validator is active in the current epoch. */
+  stakePercentage?: number;
+  /** Fee taken on emissions, as a fraction: 0.01 is 1%. */
+  fee: number;
+  /** Fee change requested by the validator, not yet effective. */
+  pendingFee?: { fee: number; effectiveAtEpoch: number };
+  isRegistered: boolean;
+  isActive: boolean;
+  acceptsDelegatedStake: boolean;
+  /** Share of the proposals made out of the proposals expected, when known. */
+  uptime?: number;
+  stakeUnitAddress: string;
+  claimNftAddress: string;
+  metadata: EntityMetadata;
+};
+
+export type StakeUnitHolding = {
+  validator: string;
+  stakeUnitAddress: string;
+  amount: Decimal;
+  /** Current XRD value of the stake units: their share of the validator stake. */
+  xrdValue: Decimal;
+};
+
+export type UnstakeClaim = {
+  validator: string;
+  claimNftAddress: string;
+  id: string;
+  xrdAmount: Decimal;
+  claimEpoch: number;
+  /** Whether the claim epoch is reached, so that the XRD can be claimed. */
+  claimable: boolean;
+};
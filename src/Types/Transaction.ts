@@ -0,0 +1,135 @@
+import { Decimal } from "../Decimal/Decimal";
+import {
+  CommittedTransactionInfo,
+  TransactionStatus,
+} from "@radixdlt/babylon-gateway-api-sdk";
+import { PrivateKey, PublicKey } from "@radixdlt/radix-engine-toolkit";
+import { Signer } from "../Signer/Signer";
+import { ReceiptEvent } from "../EventDispatcher/EventTypes";
+import {
+  TransactionTrackerOptions,
+  TransactionTrackerUpdate,
+} from "../GatewayProcessor/TransactionTracker";
+
+export type PreviewOptions = {
+  /** Public keys that will sign the transaction, so that signature costs are accounted for. */
+  signerPublicKeys?: PublicKey[];
+  notaryPublicKey?: PublicKey;
+  notaryIsSignatory?: boolean;
+  tipPercentage?: number;
+  /** Whether to pay fees from a free credit instead of requiring a lock_fee. Default is true. */
+  useFreeCredit?: boolean;
+  /** Whether to assume every signature proof is present, to pass signature access rules. */
+  assumeAllSignatureProofs?: boolean;
+};
+
+export type SubmitManifestOptions = {
+  /** Additional keys signing the transaction intent. */
+  signers?: (PrivateKey | Signer)[];
+  /** Key notarizing the transaction. When given, the submitting key signs the intent instead. */
+  notary?: PrivateKey | Signer;
+  /** Whether the notary also counts as a signatory. Default is true when the submitting key notarizes. */
+  notaryIsSignatory?: boolean;
+  /** First epoch in which the transaction is valid. Default is the current epoch. */
+  startEpoch?: number;
+  /** Epoch from which the transaction is no longer valid. Takes precedence over the epoch window. */
+  endEpoch?: number;
+  /** Number of epochs during which the transaction is valid. Default is 10. */
+  epochWindow?: number;
+  tipPercentage?: number;
+  nonce?: number;
+  /**
+   * Previews the manifest first and prepends a lock_fee instruction from the given account,
+   * locking the estimated fee plus a margin.
+   */
+  autoLockFee?: {
+    account: string;
+    /** Share of the estimated fee to add on top of it. Default is 0.2. */
+    margin?: number;
+  };
+  /** Polling options of the transaction tracker. Tracking stops at the end epoch of the transaction. */
+  tracking?: TransactionTrackerOptions;
+};
+
+export type FeeBreakdown = {
+  execution: Decimal;
+  finalization: Decimal;
+  storage: Decimal;
+  royalties: Decimal;
+  tipping: Decimal;
+  total: Decimal;
+};
+
+export type CreatedEntity = {
+  address: string;
+  entityType: string;
+};
+
+export type TransactionPreview = {
+  success: boolean;
+  status: "Succeeded" | "Failed" | "Rejected";
+  errorMessage?: string;
+  fees: FeeBreakdown;
+  /** Balance changes, by entity address then by resource address. */
+  balanceChanges: Map<string, Map<string, Decimal>>;
+  newEntities: CreatedEntity[];
+};
+
+export type CreatedEntities = {
+  components: string[];
+  resources: string[];
+  packages: string[];
+  accounts: string[];
+  /** Every created entity with its type, including those of the above lists. */
+  all: CreatedEntity[];
+};
+
+export type NonFungibleBalanceChange = {
+  added: string[];
+  removed: string[];
+};
+
+export type TransactionReceipt = {
+  intentHash: string;
+  stateVersion: number;
+  success: boolean;
+  status: TransactionStatus;
+  errorMessage?: string;
+  createdEntities: CreatedEntities;
+  fees: FeeBreakdown;
+  /** Fungible balance changes, fees excluded, by entity address then by resource address. */
+  balanceChanges: Map<string, Map<string, Decimal>>;
+  /** Non-fungible balance changes, by entity address then by resource address. */
+  nonFungibleBalanceChanges: Map<string, Map<string, NonFungibleBalanceChange>>;
+  events: ReceiptEvent[];
+  /** Committed transaction as returned by the Gateway. */
+  transaction: CommittedTransactionInfo;
+};
+
+export class TransactionPreviewError extends Error {
+  readonly preview: TransactionPreview;
+
+  constructor(preview: TransactionPreview) {
+    super(
+      `Transaction preview ${preview.status.toLowerCase()}: ${preview.errorMessage || "Unknown error"}`,
+    );
+    this.name = "TransactionPreviewError";
+    this.preview = preview;
+
+    Object.setPrototypeOf(this, TransactionPreviewError.prototype);
+  }
+}
+
+export class TransactionTrackingError extends Error {
+  readonly update: TransactionTrackerUpdate;
+
+  constructor(update: TransactionTrackerUpdate) {
+    super(
+      `Transaction ${update.intentHash} ${update.event}: ${update.errorMessage || "Unknown error"}`,
+    );
+    this.name = "TransactionTrackingError";
+    this.update = update;
+
+    Object.setPrototypeOf(this, TransactionTrackingError.prototype);
+  }
+}
@@ -4,7 +4,6 @@ import {
   WalletResult,
 } from "./WalletResult";
 
-import { CommittedTransactionInfo } from "@radixdlt/babylon-gateway-api-sdk";
 import {
   ButtonApi,
   DataRequestBuilder,
@@ -14,7 +13,9 @@ import { SignedChallenge } from "@radixdlt/rola";
 import { FungibleResource, NonFungibleItem } from "../Types/RadixTypes";
 import { GatewayProcessor } from "../GatewayProcessor/GatewayProcessor";
 import { AuthenticationToken, RolaConfig } from "../Types/Rola";
+import { TransactionReceipt } from "../Types/Transaction";
 import { withTimeoutAndUpdate } from "./Utils";
+import { Decimal } from "../Decimal/Decimal";
 
 export class WalletInterface {
   private readonly _toolkit: RadixDappToolkit;
@@ -70,12 +71,14 @@ export class WalletInterface {
         this._account = walletData.accounts[0].address;
 
         if (this._debugMode) {
-          console.log(this._account);
+          this._processor.logger().debug("Connected account", this._account);
         }
 
         await this.updateTokens();
         await this.updateNonFungibles();
-        this._xrdAddress = await this._processor.xrdAddress();
+        if (!this._xrdAddress) {
+          this._xrdAddress = await this._processor.xrdAddress();
+        }
 
         if (onWalletConnection !== undefined) {
           await onWalletConnection();
@@ -108,9 +111,9 @@ export class WalletInterface {
   //
   ////////////////////////////////////////////////////////////////////////////
 
-  public amountHeld(resource: string): number {
+  public amountHeld(resource: string): Decimal {
     const amount = this._fungibles.get(resource)?.amountHeld;
-    return amount ? amount : 0;
+    return amount ? amount : Decimal.ZERO;
   }
 
   public fungibles(): FungibleResource[] {
@@ -125,7 +128,7 @@ export class WalletInterface {
     return Array.from(this._nonFungibles.get(resource)?.values() || []);
   }
 
-  public xrdHeld(): number {
+  public xrdHeld(): Decimal {
     return this.amountHeld(this._xrdAddress);
   }
 
@@ -262,12 +265,10 @@ export class WalletInterface {
   async sendTransaction(
     manifest: string,
     message: string,
-    onSuccess: (
-      committedTransaction: CommittedTransactionInfo,
-    ) => Promise<WalletResult>,
+    onSuccess: (receipt: TransactionReceipt) => Promise<WalletResult>,
   ): Promise<WalletResult> {
     if (this._debugMode) {
-      console.log(manifest);
+      this._processor.logger().debug("Sending manifest", manifest);
     }
 
     try {
@@ -291,11 +292,15 @@ export class WalletInterface {
       } else {
         // Check the result of the transaction
         let intentHash = result.value.transactionIntentHash;
-        let response = await this._processor.getCommittedDetails(intentHash);
-        if (response.transaction.transaction_status === "CommittedSuccess") {
-          return onSuccess(response.transaction);
+        let receipt = await this._processor.getTransactionReceipt(intentHash);
+        // Fees are paid even by failed transactions
+        if (this._account) {
+          await this._processor.invalidateCache([this._account]);
+        }
+        if (receipt.success) {
+          return onSuccess(receipt);
         } else {
-          let error_message = response.transaction.error_message;
+          let error_message = receipt.errorMessage;
           if (!error_message) {
             error_message = "Unknown error";
           }
@@ -1,10 +1,40 @@
+export * from "./Address/Address";
+export * from "./Address/AddressTypes";
+export * from "./Cache/CacheStorage";
+export * from "./Decimal/Decimal";
+export * from "./Decimal/DecimalTypes";
+export * from "./EventDispatcher/EventDispatcher";
+export * from "./EventDispatcher/EventTypes";
 export * from "./GatewayProcessor/GatewayProcessor";
+export * from "./GatewayProcessor/RequestScheduler";
+export * from "./GatewayProcessor/RetryPolicy";
+export * from "./GatewayProcessor/TransactionStream";
+export * from "./GatewayProcessor/TransactionTracker";
+export * from "./Holders/Distribution";
+export * from "./Holders/HolderExport";
+export * from "./Holders/HolderTypes";
 export * from "./ManifestBuilder/ManifestTypes";
 export * from "./ManifestBuilder/StringManifestBuilder";
+export * from "./Metadata/MetadataDecoder";
+export * from "./Metadata/MetadataTypes";
+export * from "./Network/NetworkContext";
+export * from "./Observability/Instrumentation";
+export * from "./Observability/Logger";
+export * from "./Observability/MetricsCollector";
+export * from "./PackageDeployer/PackageDeployer";
+export * as Sbor from "./Sbor/SborCodecs";
+export * from "./Sbor/SborDecoder";
+export * from "./Sbor/SborEncoder";
+export * from "./Sbor/SborTypes";
+export * from "./Signer/KeystoreSigner";
+export * from "./Signer/RemoteSigner";
+export * from "./Signer/Signer";
 export * from "./Types/NFT";
 export * from "./Types/NFTMap";
 export * from "./Types/NFTSet";
 export * from "./Types/RadixTypes";
+export * from "./Types/Staking";
+export * from "./Types/Transaction";
 export * from "./WalletInteractor/Constants";
 export * from "./WalletInteractor/WalletInterface";
 export * from "./WalletInteractor/WalletResult";
@@ -0,0 +1,82 @@
+import {
+  NetworkId,
+  PrivateKey,
+  RadixEngineToolkit,
+} from "@radixdlt/radix-engine-toolkit";
+import {
+  asAccountAddress,
+  asResourceAddress,
+  decodeAddress,
+  GatewayProcessor,
+  InvalidAddressError,
+  isValidAddress,
+  StringManifestBuilder,
+} from "../src";
+
+const xrd =
+  "resource_tdx_2_1tknxxxxxxxxxradxrdxxxxxxxxx009923554798xxxxxxxxxtfd2jc";
+const account =
+  "account_tdx_2_12yx3ftggkd62d5hew8pfkm9tfffenyj5zy4gvd2hdemqck64ywsvx4";
+
+test("Test decode matches the toolkit", async () => {
+  for (const networkId of [NetworkId.Mainnet, NetworkId.Stokenet, 0x0e]) {
+    const known = await RadixEngineToolkit.Utils.knownAddresses(networkId);
+    const addresses = [
+      ...Object.values(known.resourceAddresses),
+      ...Object.values(known.packageAddresses),
+      ...Object.values(known.componentAddresses),
+    ];
+    for (const address of addresses) {
+      const expected = await RadixEngineToolkit.Address.decode(address);
+      const decoded = decodeAddress(address);
+      expect(decoded.entityType).toBe(expected.entityType);
+      expect(decoded.networkId).toBe(networkId);
+    }
+  }
+
+  const privateKey = new PrivateKey.Ed25519(new Uint8Array(32).fill(1));
+  const virtualAccount =
+    await RadixEngineToolkit.Derive.virtualAccountAddressFromPublicKey(
+      privateKey.publicKey(),
+      NetworkId.Stokenet,
+    );
+  expect(decodeAddress(virtualAccount)).toMatchObject({
+    kind: "Account",
+    isVirtual: true,
+    hrpSuffix: "tdx_2_",
+    networkId: NetworkId.Stokenet,
+  });
+});
+
+test("Test validate addresses", () => {
+  expect(asResourceAddress(xrd, NetworkId.Stokenet)).toBe(xrd);
+  expect(asAccountAddress(account)).toBe(account);
+
+  expect(() => asAccountAddress(xrd)).toThrow(
+    new InvalidAddressError(xrd, "expected Account, found Resource"),
+  );
+  expect(() => asResourceAddress(xrd, NetworkId.Mainnet)).toThrow(
+    InvalidAddressError,
+  );
+  expect(isValidAddress(xrd.slice(0, -1) + "x")).toBe(false);
+  expect(isValidAddress(xrd.replace("resource_", "account_"))).toBe(false);
+  expect(isValidAddress(xrd.toUpperCase())).toBe(false);
+  expect(isValidAddress("not an address")).toBe(false);
+});
+
+test("Test validate inputs eagerly", async () => {
+  const builder = new StringManifestBuilder(NetworkId.Mainnet);
+  expect(() => builder.depositBatch(account)).toThrow(InvalidAddressError);
+  expect(
+    new StringManifestBuilder(NetworkId.Stokenet)
+      .callMethod(account, "withdraw", [`Address("${xrd}")`, `Decimal("1")`])
+      .build(),
+  ).toContain(xrd);
+
+  const processor = GatewayProcessor.fromNetworkId(
+    NetworkId.Stokenet,
+  ).setAddressValidation(true);
+  await expect(processor.getResourcesInformation([account])).rejects.toThrow(
+    new InvalidAddressError(account, "expected Resource, found Account"),
+  );
+});
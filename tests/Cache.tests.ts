@@ -0,0 +1,182 @@
+import {
+  GatewayApiClient,
+  ResponseError,
+  StateEntityDetailsOperationRequest,
+  StateEntityDetailsResponse,
+} from "@radixdlt/babylon-gateway-api-sdk";
+import {
+  GatewayProcessor,
+  LruCacheStorage,
+  RetryPolicy,
+  SchedulerLane,
+  silentLogger,
+} from "../src";
+
+// Entity details of any address, except `invalid` that the Gateway rejects
+function fakeClient(calls: string[][]) {
+  return {
+    state: {
+      innerClient: {
+        stateEntityDetails: async (
+          request: StateEntityDetailsOperationRequest,
+        ): Promise<StateEntityDetailsResponse> => {
+          const addresses = request.stateEntityDetailsRequest.addresses;
+          calls.push(addresses);
+          if (addresses.includes("invalid")) {
+            throw new ResponseError(
+              new Response("", { status: 400 }),
+              "Invalid address",
+              undefined,
+            );
+          }
+          const stateVersion = request.stateEntityDetailsRequest.at_ledger_state
+            ? request.stateEntityDetailsRequest.at_ledger_state.state_version!
+            : 100;
+          return {
+            ledger_state: {
+              network: "stokenet",
+              state_version: stateVersion,
+              proposer_round_timestamp: "2024-01-01T00:00:00Z",
+              epoch: 1,
+              round: 1,
+            },
+            items: addresses.map((address) => ({
+              address: address,
+              metadata: { items: [] },
+            })),
+          };
+        },
+      },
+    },
+  } as unknown as GatewayApiClient;
+}
+
+test("Test coalescing of concurrent lookups", async () => {
+  const calls: string[][] = [];
+  const processor = new GatewayProcessor(
+    fakeClient(calls),
+    undefined,
+    undefined,
+    RetryPolicy.none(),
+  ).enableCache();
+  const addresses = Array.from({ length: 25 }, (_, i) => `entity_${i}`);
+
+  const responses = await Promise.all(
+    [...addresses, "entity_0"].map((address) =>
+      processor.entityDetails([address]),
+    ),
+  );
+  expect(calls.map((call) => call.length)).toEqual([20, 5]);
+  expect(responses[25]!.items[0]!.address).toBe("entity_0");
+
+  await processor.entityDetails(["entity_3", "entity_4"]);
+  expect(calls.length).toBe(2);
+});
+
+test("Test expiry and invalidation of latest reads", async () => {
+  const calls: string[][] = [];
+  const processor = new GatewayProcessor(
+    fakeClient(calls),
+    undefined,
+    undefined,
+    RetryPolicy.none(),
+  ).enableCache({ ttl: 20 });
+
+  await processor.entityDetails(["entity_0"]);
+  await processor.entityDetails(["entity_0"]);
+  expect(calls.length).toBe(1);
+  await new Promise((resolve) => setTimeout(resolve, 30));
+  await processor.entityDetails(["entity_0"]);
+  expect(calls.length).toBe(2);
+  await processor.invalidateCache(["entity_0"]);
+  await processor.entityDetails(["entity_0"]);
+  expect(calls.length).toBe(3);
+});
+
+test("Test permanence of pinned reads", async () => {
+  const calls: string[][] = [];
+  const storage = new LruCacheStorage(10);
+  const processor = new GatewayProcessor(
+    fakeClient(calls),
+    undefined,
+    undefined,
+    RetryPolicy.none(),
+  ).enableCache({ storage: storage, ttl: 0 });
+  const snapshot = await processor.atLedgerState(42);
+
+  const response = await snapshot.entityDetails(["entity_0"]);
+  expect(response.ledger_state.state_version).toBe(42);
+  await processor.invalidateCache(["entity_0"]);
+  await snapshot.entityDetails(["entity_0"]);
+  expect(calls.length).toBe(1);
+
+  await processor.entityDetails(["entity_0"]);
+  await processor.entityDetails(["entity_0"]);
+  expect(calls.length).toBe(3);
+  expect(storage.size()).toBe(2);
+});
+
+test("Test isolation of invalid addresses in a batch", async () => {
+  const calls: string[][] = [];
+  const processor = new GatewayProcessor(
+    fakeClient(calls),
+    undefined,
+    undefined,
+    RetryPolicy.none(),
+  )
+    .setLogger(silentLogger)
+    .enableCache();
+
+  const [first, invalid, second] = await Promise.allSettled(
+    ["entity_0", "invalid", "entity_1"].map((address) =>
+      processor.entityDetails([address]),
+    ),
+  );
+  expect(first.status).toBe("fulfilled");
+  expect(second.status).toBe("fulfilled");
+  expect(invalid.status).toBe("rejected");
+  expect(calls).toEqual([
+    ["entity_0", "invalid", "entity_1"],
+    ["entity_0"],
+    ["invalid"],
+    ["entity_1"],
+  ]);
+});
+
+test("Test batched calls go through the lane of the view", async () => {
+  const calls: string[][] = [];
+  const processor = new GatewayProcessor(
+    fakeClient(calls),
+    undefined,
+    undefined,
+    RetryPolicy.none(),
+  ).enableCache();
+  const lanes: (SchedulerLane | undefined)[] = [];
+  const scheduler = processor.scheduler();
+  const schedule = scheduler.schedule.bind(scheduler);
+  jest.spyOn(scheduler, "schedule").mockImplementation((task, lane) => {
+    lanes.push(lane);
+    return schedule(task, lane);
+  });
+
+  await processor.inLane("background").entityDetails(["entity_0"]);
+  await processor.entityDetails(["entity_1"]);
+  expect(lanes).toEqual(["background", "interactive"]);
+});
+
+test("Test cached entries are not shared with callers", async () => {
+  const calls: string[][] = [];
+  const processor = new GatewayProcessor(
+    fakeClient(calls),
+    undefined,
+    undefined,
+    RetryPolicy.none(),
+  ).enableCache();
+
+  const first = await processor.entityDetails(["entity_0"]);
+  first.items[0]!.address = "changed";
+  first.items.push(first.items[0]!);
+  const second = await processor.entityDetails(["entity_0"]);
+  expect(second.items.map((item) => item.address)).toEqual(["entity_0"]);
+  expect(calls.length).toBe(1);
+});
@@ -0,0 +1,103 @@
+import {
+  GatewayApiClient,
+  LedgerState,
+  LedgerStateSelector,
+  NonFungibleIdsRequest,
+  NonFungibleLocationRequest,
+  StateNonFungibleIdsResponse,
+  StateNonFungibleLocationResponse,
+} from "@radixdlt/babylon-gateway-api-sdk";
+import {
+  collectionHoldersToCsv,
+  collectionHoldersToJson,
+  GatewayProcessor,
+  RetryPolicy,
+} from "../src";
+
+const alice =
+  "account_tdx_2_12yx3ftggkd62d5hew8pfkm9tfffenyj5zy4gvd2hdemqck64ywsvx4";
+const dex = "component_tdx_2_1dex";
+
+function fakeApi(stateVersions: number[]): GatewayApiClient {
+  const owners: Record<string, string | undefined> = {
+    "#1#": alice,
+    "#2#": alice,
+    "#3#": dex,
+    "#4#": undefined,
+  };
+  const pinned = (selector?: LedgerStateSelector | null): LedgerState => {
+    const stateVersion = selector?.state_version ?? 0;
+    stateVersions.push(stateVersion);
+    return {
+      network: "stokenet",
+      state_version: stateVersion,
+      proposer_round_timestamp: "2024-01-01T00:00:00Z",
+      epoch: 1,
+      round: 1,
+    };
+  };
+  return {
+    state: {
+      innerClient: {
+        nonFungibleIds: async (
+          params: NonFungibleIdsRequest,
+        ): Promise<StateNonFungibleIdsResponse> => {
+          const request = params.stateNonFungibleIdsRequest;
+          return {
+            ledger_state: pinned(request.at_ledger_state),
+            resource_address: request.resource_address,
+            non_fungible_ids: { items: Object.keys(owners), next_cursor: null },
+          };
+        },
+        nonFungibleLocation: async (
+          params: NonFungibleLocationRequest,
+        ): Promise<StateNonFungibleLocationResponse> => {
+          const request = params.stateNonFungibleLocationRequest;
+          return {
+            ledger_state: pinned(request.at_ledger_state),
+            resource_address: request.resource_address,
+            non_fungible_ids: request.non_fungible_ids.map((id) => {
+              return {
+                non_fungible_id: id,
+                owning_vault_global_ancestor_address: owners[id],
+                is_burned: owners[id] === undefined,
+                last_updated_at_state_version: 1,
+              };
+            }),
+          };
+        },
+      },
+    },
+  } as unknown as GatewayApiClient;
+}
+
+test("Test snapshot collection holders", async () => {
+  const stateVersions: number[] = [];
+  const processor = new GatewayProcessor(
+    fakeApi(stateVersions),
+    undefined,
+    undefined,
+    RetryPolicy.none(),
+  );
+  const snapshot = await processor.snapshotCollectionHolders("resource", {
+    atLedgerState: 500,
+    excludeComponents: true,
+  });
+
+  expect(stateVersions).toEqual([500, 500]);
+  expect(snapshot.holders).toEqual(new Map([[alice, ["#1#", "#2#"]]]));
+  expect(snapshot.holderCount).toBe(1);
+  expect(snapshot.idCount).toBe(2);
+  expect(snapshot.unresolvedIds).toEqual(["#4#"]);
+  expect(snapshot.excludedHolders).toEqual(new Map([[dex, ["#3#"]]]));
+
+  expect(collectionHoldersToCsv(snapshot)).toBe(
+    `holder,count,ids\n${alice},2,#1# #2#\n`,
+  );
+  expect(JSON.parse(collectionHoldersToJson(snapshot)).holders).toEqual({
+    [alice]: ["#1#", "#2#"],
+  });
+
+  const owners = await processor.getNftOwners("resource", ["#3#", "#4#"], 500);
+  expect(owners).toEqual(new Map([["#3#", dex]]));
+});
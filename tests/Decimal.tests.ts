@@ -0,0 +1,56 @@
+import BigNumber from "bignumber.js";
+import { Decimal, InvalidDecimalError, manifestDecimal } from "../src";
+
+test("Test decimal arithmetic keeps 18 decimal places", () => {
+  const third = Decimal.from(1).div(3);
+  expect(third.toString()).toBe("0.333333333333333333");
+  expect(third.times(3).toString()).toBe("0.999999999999999999");
+  expect(Decimal.from("0.1").plus(0.2).eq("0.3")).toBe(true);
+  expect(Decimal.from("1.0000000000000000019").toString()).toBe(
+    "1.000000000000000001",
+  );
+  expect(
+    Decimal.from("123456789012345678901234.123456789012345678").minus(
+      "0.000000000000000001",
+    ),
+  ).toEqual(Decimal.from("123456789012345678901234.123456789012345677"));
+  expect(Decimal.sum([1, "2.5", new BigNumber(3)]).toString()).toBe("6.5");
+  expect(Decimal.from(-0).toString()).toBe("0");
+});
+
+test("Test decimal bounds and errors", () => {
+  const max = "3138550867693340381917894711603833208051.177722232017256447";
+  expect(Decimal.from(max).toString()).toBe(max);
+  expect(() => Decimal.from(max).plus("0.000000000000000001")).toThrow(
+    InvalidDecimalError,
+  );
+  expect(() => Decimal.from("abc")).toThrow(InvalidDecimalError);
+  expect(() => Decimal.from(1).div(0)).toThrow(InvalidDecimalError);
+  expect(Decimal.isValid(Infinity)).toBe(false);
+  expect(Decimal.from(max).mulDiv(max, max).toString()).toBe(max);
+});
+
+test("Test rounding and comparison", () => {
+  const amount = Decimal.from("2.56789");
+  expect(amount.roundTo(2).toString()).toBe("2.56");
+  expect(amount.roundTo(2, "Up").toString()).toBe("2.57");
+  expect(amount.roundTo(0, "HalfEven").toString()).toBe("3");
+  expect(amount.gt(2)).toBe(true);
+  expect(amount.comparedTo("2.56789")).toBe(0);
+  expect(Decimal.max(1, amount, "2.5")).toEqual(amount);
+});
+
+test("Test formatting", () => {
+  const amount = Decimal.from("1234567.891");
+  expect(amount.format()).toBe("1,234,567.891");
+  expect(amount.format({ decimals: 2, symbol: "XRD" })).toBe(
+    "1,234,567.89 XRD",
+  );
+  expect(amount.format({ compact: true, symbol: "XRD" })).toBe("1.23M XRD");
+  expect(Decimal.from("999.999").format({ compact: true })).toBe("999.99");
+  expect(Decimal.from("-0.001").format({ decimals: 2 })).toBe("0");
+  expect(JSON.stringify({ amount: Decimal.from("1e21") })).toBe(
+    '{"amount":"1000000000000000000000"}',
+  );
+  expect(manifestDecimal(5e-7)).toBe('Decimal("0.0000005")');
+});
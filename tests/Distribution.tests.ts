@@ -0,0 +1,277 @@
+import {
+  calculateDistribution,
+  Decimal,
+  GatewayProcessor,
+  RetryPolicy,
+} from "../src";
+import {
+  EntityFungibleResourceVaultPageRequest,
+  GatewayApiClient,
+  LedgerState,
+  ResourceHoldersCollectionItem,
+  ResourceHoldersResponse,
+  StateEntityDetailsOperationRequest,
+  StateEntityDetailsRequest,
+  StateEntityDetailsResponse,
+  StateEntityDetailsResponseItem,
+  StateEntityFungibleResourceVaultsPageRequest,
+  StateEntityFungibleResourceVaultsPageResponse,
+} from "@radixdlt/babylon-gateway-api-sdk";
+
+const holders = new Map([
+  ["account_a", Decimal.from(60)],
+  ["account_b", Decimal.from(30)],
+  ["account_c", Decimal.from(10)],
+  ["account_team", Decimal.from(900)],
+]);
+
+test("Test pro-rata distribution with exclusions and rounding", () => {
+  const distribution = calculateDistribution(holders, {
+    rewardPool: Decimal.from(100),
+    rule: { type: "ProRata" },
+    divisibility: 0,
+    exclude: ["account_team"],
+  });
+  expect(distribution.amounts).toEqual(
+    new Map([
+      ["account_a", Decimal.from(60)],
+      ["account_b", Decimal.from(30)],
+      ["account_c", Decimal.from(10)],
+    ]),
+  );
+
+  const rounded = calculateDistribution(holders, {
+    rewardPool: Decimal.from(10),
+    rule: { type: "MinimumBalance", minimumBalance: Decimal.from(30) },
+    divisibility: 1,
+    exclude: ["account_team"],
+  });
+  expect(rounded.amounts).toEqual(
+    new Map([
+      ["account_a", Decimal.from("6.6")],
+      ["account_b", Decimal.from("3.3")],
+    ]),
+  );
+  expect(rounded.remainder).toEqual(Decimal.from("0.1"));
+});
+
+test("Test tiered and equal distributions", () => {
+  const tiered = calculateDistribution(holders, {
+    rewardPool: Decimal.from(100),
+    rule: {
+      type: "Tiered",
+      tiers: [
+        { minimumBalance: Decimal.from(50), weight: Decimal.from(3) },
+        { minimumBalance: Decimal.from(20), weight: Decimal.from(1) },
+      ],
+    },
+    divisibility: 18,
+    exclude: ["account_team"],
+  });
+  expect(tiered.amounts).toEqual(
+    new Map([
+      ["account_a", Decimal.from(75)],
+      ["account_b", Decimal.from(25)],
+    ]),
+  );
+
+  const equal = calculateDistribution(holders, {
+    rewardPool: Decimal.from(40),
+    rule: {
+      type: "MinimumBalance",
+      minimumBalance: Decimal.from(10),
+      split: "Equal",
+    },
+    divisibility: 18,
+  });
+  expect([...equal.amounts.values()]).toEqual([
+    Decimal.from(10),
+    Decimal.from(10),
+    Decimal.from(10),
+    Decimal.from(10),
+  ]);
+});
+
+test("Test snapshot fungible holders at a state version", async () => {
+  const ledgerState: LedgerState = {
+    network: "stokenet",
+    state_version: 200,
+    proposer_round_timestamp: "2024-01-01T00:00:00Z",
+    epoch: 1,
+    round: 1,
+  };
+  const holder = (
+    address: string,
+    amount: string,
+    stateVersion: number,
+  ): ResourceHoldersCollectionItem => ({
+    type: "FungibleResource",
+    holder_address: address,
+    amount: amount,
+    last_updated_at_state_version: stateVersion,
+  });
+  // Balances at state version 100 of the holders updated since
+  const past: Record<string, StateEntityDetailsResponseItem> = {
+    account_b: {
+      address: "account_b",
+      metadata: { items: [] },
+      fungible_resources: {
+        items: [
+          {
+            aggregation_level: "Global",
+            resource_address: "resource",
+            amount: "7",
+            last_updated_at_state_version: 95,
+          },
+        ],
+      },
+    },
+    // More resources than the first page: read from the vaults
+    account_c: {
+      address: "account_c",
+      metadata: { items: [] },
+      fungible_resources: { items: [], next_cursor: "next" },
+    },
+    // Received the resource after the snapshot
+    account_d: {
+      address: "account_d",
+      metadata: { items: [] },
+      fungible_resources: { items: [] },
+    },
+  };
+
+  let detailsRequests: StateEntityDetailsRequest[] = [];
+  let vaultRequests: StateEntityFungibleResourceVaultsPageRequest[] = [];
+  const api = {
+    status: {
+      getCurrent: async () => ({ ledger_state: ledgerState }),
+    },
+    extensions: {
+      innerClient: {
+        resourceHoldersPage: async (): Promise<ResourceHoldersResponse> => ({
+          items: [
+            holder("account_a", "5", 90),
+            holder("component_dex", "50", 80),
+            holder("account_b", "1", 120),
+            holder("account_c", "3", 150),
+            holder("account_d", "4", 130),
+          ],
+          next_cursor: null,
+        }),
+      },
+    },
+    state: {
+      innerClient: {
+        stateEntityDetails: async (
+          params: StateEntityDetailsOperationRequest,
+        ): Promise<StateEntityDetailsResponse> => {
+          const request = params.stateEntityDetailsRequest;
+          detailsRequests.push(request);
+          return {
+            ledger_state: ledgerState,
+            items: request.addresses.map((address) => past[address]!),
+          };
+        },
+        entityFungibleResourceVaultPage: async (
+          params: EntityFungibleResourceVaultPageRequest,
+        ): Promise<StateEntityFungibleResourceVaultsPageResponse> => {
+          const request = params.stateEntityFungibleResourceVaultsPageRequest;
+          vaultRequests.push(request);
+          return {
+            ledger_state: ledgerState,
+            address: request.address,
+            resource_address: request.resource_address,
+            items: [
+              {
+                vault_address: "vault",
+                amount: "2",
+                last_updated_at_state_version: 99,
+              },
+            ],
+            next_cursor: null,
+          };
+        },
+      },
+    },
+  } as unknown as GatewayApiClient;
+
+  const processor = new GatewayProcessor(
+    api,
+    undefined,
+    undefined,
+    RetryPolicy.none(),
+  );
+  const snapshot = await processor.getFungibleHolders("resource", {
+    atLedgerState: 100,
+    excludeComponents: true,
+  });
+  expect(snapshot.holders).toEqual(
+    new Map([
+      ["account_a", Decimal.from(5)],
+      ["account_b", Decimal.from(7)],
+      ["account_c", Decimal.from(2)],
+    ]),
+  );
+  expect(snapshot.totalHeld).toEqual(Decimal.from(14));
+  expect(snapshot.excludedHolders).toEqual(
+    new Map([["component_dex", Decimal.from(50)]]),
+  );
+  expect(snapshot.incomplete).toBe(true);
+
+  // One batch for the holders updated since, then the vaults of the paged holder
+  expect(detailsRequests).toHaveLength(1);
+  expect(detailsRequests[0]!.addresses).toEqual([
+    "account_b",
+    "account_c",
+    "account_d",
+  ]);
+  expect(detailsRequests[0]!.at_ledger_state).toEqual({ state_version: 100 });
+  expect(vaultRequests.map((request) => request.address)).toEqual([
+    "account_c",
+  ]);
+  expect(vaultRequests[0]!.at_ledger_state).toEqual({ state_version: 100 });
+});
+
+test("Test unpinned fungible holders snapshot on a live ledger", async () => {
+  // Every read of the current state finds a new state version
+  let stateVersion = 200;
+  const api = {
+    status: {
+      getCurrent: async () => ({
+        ledger_state: {
+          network: "stokenet",
+          state_version: stateVersion++,
+          proposer_round_timestamp: "2024-01-01T00:00:00Z",
+          epoch: 1,
+          round: 1,
+        },
+      }),
+    },
+    extensions: {
+      innerClient: {
+        resourceHoldersPage: async (): Promise<ResourceHoldersResponse> => ({
+          items: [
+            {
+              type: "FungibleResource",
+              holder_address: "account_a",
+              amount: "5",
+              last_updated_at_state_version: 150,
+            },
+          ],
+          next_cursor: null,
+        }),
+      },
+    },
+  } as unknown as GatewayApiClient;
+
+  const processor = new GatewayProcessor(
+    api,
+    undefined,
+    undefined,
+    RetryPolicy.none(),
+  );
+  const snapshot = await processor.getFungibleHolders("resource");
+  expect(snapshot.stateVersion).toBe(200);
+  expect(snapshot.holders).toEqual(new Map([["account_a", Decimal.from(5)]]));
+  expect(snapshot.incomplete).toBe(false);
+});
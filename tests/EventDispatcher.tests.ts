@@ -0,0 +1,95 @@
+import { CommittedTransactionInfo } from "@radixdlt/babylon-gateway-api-sdk";
+import {
+  EventDispatcher,
+  MintFungibleResourceEvent,
+  WithdrawEvent,
+} from "../src";
+
+const vault =
+  "internal_vault_tdx_2_1tqhr6mcw3wf0aw7q5cjz8vu6g7y9wj0yvah9tzn4qdcyjw2ya0uhd8";
+const resource =
+  "resource_tdx_2_1tknxxxxxxxxxradxrdxxxxxxxxx009923554798xxxxxxxxxtfd2jc";
+const resourcePackage =
+  "package_tdx_2_1pkgxxxxxxxxxresrcexxxxxxxxx000538436477xxxxxxxxxmn4mes";
+
+const transaction = {
+  state_version: 1,
+  transaction_status: "CommittedSuccess",
+  receipt: {
+    events: [
+      {
+        name: "WithdrawEvent",
+        emitter: { type: "Method", entity: { entity_address: vault } },
+        data: {
+          kind: "Tuple",
+          fields: [{ kind: "Decimal", field_name: "amount", value: "12.5" }],
+        },
+      },
+      {
+        name: "MintFungibleResourceEvent",
+        emitter: { type: "Method", entity: { entity_address: resource } },
+        data: {
+          kind: "Tuple",
+          fields: [{ kind: "Decimal", field_name: "amount", value: "100" }],
+        },
+      },
+      {
+        name: "SomeFunctionEvent",
+        emitter: {
+          type: "Function",
+          package_address: resourcePackage,
+          blueprint_name: "FungibleResourceManager",
+        },
+        data: {
+          kind: "Enum",
+          variant_id: "1",
+          variant_name: "Second",
+          fields: [{ kind: "U32", value: "7" }],
+        },
+      },
+    ],
+  },
+} as unknown as CommittedTransactionInfo;
+
+test("Test dispatch events by emitter and name", async () => {
+  const dispatcher = new EventDispatcher();
+  const withdrawn: string[] = [];
+  const minted: string[] = [];
+
+  dispatcher.on<WithdrawEvent>(
+    { emitter: vault, name: "WithdrawEvent" },
+    (event) => {
+      withdrawn.push(event.data.amount.toString());
+    },
+  );
+  const unsubscribe = dispatcher.on<MintFungibleResourceEvent>(
+    { emitter: resource },
+    (event) => {
+      minted.push(event.data.amount.toFixed());
+    },
+  );
+
+  expect(await dispatcher.dispatch(transaction)).toEqual(2);
+  expect(withdrawn).toEqual(["12.5"]);
+  expect(minted).toEqual(["100"]);
+
+  unsubscribe();
+  expect(await dispatcher.dispatch(transaction)).toEqual(1);
+});
+
+test("Test dispatch events by package and blueprint", async () => {
+  const dispatcher = new EventDispatcher();
+  const received: unknown[] = [];
+  dispatcher.on(
+    {
+      packageAddress: resourcePackage,
+      blueprintName: "FungibleResourceManager",
+    },
+    (event) => {
+      received.push(event.data);
+    },
+  );
+
+  await dispatcher.dispatch(transaction);
+  expect(received).toEqual([{ variant: "Second", fields: [7] }]);
+});
@@ -91,8 +91,8 @@ test("Test Get Fungible Resources", async () => {
   expect(shard).toBeDefined();
 
   if (xrd && shard) {
-    expect(xrd.amountHeld).toEqual(20000);
-    expect(shard.amountHeld).toEqual(22);
+    expect(xrd.amountHeld.toString()).toEqual("20000");
+    expect(shard.amountHeld.toString()).toEqual("22");
   }
 });
 
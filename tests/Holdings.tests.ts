@@ -0,0 +1,46 @@
+import { Decimal } from "../src";
+import { diffHoldings } from "../src/GatewayProcessor/Utils";
+
+test("Test diff holdings", () => {
+  const diff = diffHoldings(
+    {
+      fungibles: [
+        { name: "XRD", address: "xrd", amountHeld: Decimal.from(10.1) },
+        { name: "Sold", address: "sold", amountHeld: Decimal.from(5) },
+        { name: "Kept", address: "kept", amountHeld: Decimal.from(1) },
+      ],
+      nonFungibles: [
+        { name: "Heroes", address: "heroes", idsHeld: ["#1#", "#2#"] },
+      ],
+    },
+    {
+      fungibles: [
+        { name: "XRD", address: "xrd", amountHeld: Decimal.from(10.3) },
+        { name: "Kept", address: "kept", amountHeld: Decimal.from(1) },
+      ],
+      nonFungibles: [
+        { name: "Heroes", address: "heroes", idsHeld: ["#2#", "#3#"] },
+        { name: "Badges", address: "badges", idsHeld: ["#1#"] },
+      ],
+    },
+  );
+
+  expect(diff.fungibles).toEqual([
+    {
+      address: "xrd",
+      before: Decimal.from("10.1"),
+      after: Decimal.from("10.3"),
+      change: Decimal.from("0.2"),
+    },
+    {
+      address: "sold",
+      before: Decimal.from(5),
+      after: Decimal.from(0),
+      change: Decimal.from(-5),
+    },
+  ]);
+  expect(diff.nonFungibles).toEqual([
+    { address: "heroes", added: ["#3#"], removed: ["#1#"] },
+    { address: "badges", added: ["#1#"], removed: [] },
+  ]);
+});
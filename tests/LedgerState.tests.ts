@@ -0,0 +1,182 @@
+import {
+  EntityMetadataPageRequest,
+  EntityNonFungiblesPageRequest,
+  GatewayApiClient,
+  KeyValueStoreKeysRequest,
+  LedgerState,
+  LedgerStateSelector,
+  NonFungibleIdsRequest,
+  StateEntityDetailsOperationRequest,
+  StateEntityDetailsResponse,
+  StateEntityMetadataPageResponse,
+  StateEntityNonFungiblesPageResponse,
+  StateKeyValueStoreKeysResponse,
+  StateNonFungibleIdsResponse,
+  StreamTransactionsOperationRequest,
+  StreamTransactionsResponse,
+} from "@radixdlt/babylon-gateway-api-sdk";
+import { GatewayProcessor, InvalidLedgerStateError, RetryPolicy } from "../src";
+
+const genesis = new Date("2023-09-27T00:00:00Z");
+
+function ledgerState(stateVersion: number, timestamp: Date): LedgerState {
+  return {
+    network: "stokenet",
+    state_version: stateVersion,
+    proposer_round_timestamp: timestamp.toISOString(),
+    epoch: 1,
+    round: 1,
+  };
+}
+
+function fakeClient(selectors: (LedgerStateSelector | null | undefined)[]) {
+  const latest = ledgerState(1000, new Date());
+  const pinned = (selector?: LedgerStateSelector | null) => {
+    selectors.push(selector);
+    return selector && selector.state_version
+      ? ledgerState(selector.state_version, genesis)
+      : latest;
+  };
+
+  return {
+    status: {
+      getCurrent: async () => ({ ledger_state: latest }),
+    },
+    stream: {
+      innerClient: {
+        streamTransactions: async (
+          request: StreamTransactionsOperationRequest,
+        ): Promise<StreamTransactionsResponse> => {
+          const timestamp =
+            request.streamTransactionsRequest.at_ledger_state?.timestamp;
+          // Resolves to the genesis state for any timestamp before it, like the Gateway
+          return {
+            ledger_state:
+              timestamp && timestamp >= genesis
+                ? ledgerState(500, timestamp)
+                : ledgerState(1, genesis),
+            items: [],
+          };
+        },
+      },
+    },
+    state: {
+      innerClient: {
+        stateEntityDetails: async (
+          request: StateEntityDetailsOperationRequest,
+        ): Promise<StateEntityDetailsResponse> => ({
+          ledger_state: pinned(
+            request.stateEntityDetailsRequest.at_ledger_state,
+          ),
+          items: request.stateEntityDetailsRequest.addresses.map((address) => ({
+            address: address,
+            metadata: { items: [] },
+          })),
+        }),
+        entityMetadataPage: async (
+          request: EntityMetadataPageRequest,
+        ): Promise<StateEntityMetadataPageResponse> => ({
+          ledger_state: pinned(
+            request.stateEntityMetadataPageRequest.at_ledger_state,
+          ),
+          address: request.stateEntityMetadataPageRequest.address,
+          items: [],
+        }),
+        entityNonFungiblesPage: async (
+          request: EntityNonFungiblesPageRequest,
+        ): Promise<StateEntityNonFungiblesPageResponse> => ({
+          ledger_state: pinned(
+            request.stateEntityNonFungiblesPageRequest.at_ledger_state,
+          ),
+          address: request.stateEntityNonFungiblesPageRequest.address,
+          items: [],
+        }),
+        nonFungibleIds: async (
+          request: NonFungibleIdsRequest,
+        ): Promise<StateNonFungibleIdsResponse> => ({
+          ledger_state: pinned(
+            request.stateNonFungibleIdsRequest.at_ledger_state,
+          ),
+          resource_address: request.stateNonFungibleIdsRequest.resource_address,
+          non_fungible_ids: { items: [] },
+        }),
+        keyValueStoreKeys: async (
+          request: KeyValueStoreKeysRequest,
+        ): Promise<StateKeyValueStoreKeysResponse> => ({
+          ledger_state: pinned(
+            request.stateKeyValueStoreKeysRequest.at_ledger_state,
+          ),
+          key_value_store_address:
+            request.stateKeyValueStoreKeysRequest.key_value_store_address,
+          items: [],
+        }),
+      },
+    },
+  } as unknown as GatewayApiClient;
+}
+
+function processor(selectors: (LedgerStateSelector | null | undefined)[]) {
+  return new GatewayProcessor(
+    fakeClient(selectors),
+    undefined,
+    undefined,
+    RetryPolicy.none(),
+  );
+}
+
+test("Test pinned views pass their state version to every call", async () => {
+  const selectors: (LedgerStateSelector | null | undefined)[] = [];
+  const snapshot = await processor(selectors).atLedgerState(42);
+
+  expect(await snapshot.ledgerState()).toBe(42);
+  const details = await snapshot.entityDetails(["account"]);
+  expect(details.ledger_state.state_version).toBe(42);
+  await snapshot.getEntityMetadata("account");
+  await snapshot.getNonFungibleIdsHeldBy("account", "resource");
+  await snapshot.getAllNonFungibleIds("resource");
+  await snapshot.getKeyValueStoreKeys("kvs");
+
+  expect(selectors.length).toBe(5);
+  selectors.forEach((selector) =>
+    expect(selector).toEqual({ state_version: 42 }),
+  );
+});
+
+test("Test unpinned processor reads the latest state", async () => {
+  const selectors: (LedgerStateSelector | null | undefined)[] = [];
+  const latest = processor(selectors);
+
+  await latest.entityDetails(["account"]);
+  await latest.getEntityMetadata("account");
+  expect(selectors).toEqual([undefined, undefined]);
+});
+
+test("Test pin by timestamp", async () => {
+  const selectors: (LedgerStateSelector | null | undefined)[] = [];
+  const gateway = processor(selectors);
+
+  const snapshot = await gateway.atLedgerState("2024-01-01T00:00:00Z");
+  expect(await snapshot.ledgerState()).toBe(500);
+  const fromDate = await gateway.atLedgerState(new Date("2024-01-01"));
+  expect(await fromDate.ledgerState()).toBe(500);
+});
+
+test("Test invalid ledger states are rejected", async () => {
+  const gateway = processor([]);
+
+  await expect(gateway.atLedgerState("2020-01-01T00:00:00Z")).rejects.toThrow(
+    "before the first ledger state",
+  );
+  await expect(
+    gateway.atLedgerState(new Date(Date.now() + 60000)),
+  ).rejects.toThrow("in the future");
+  await expect(gateway.atLedgerState("yesterday")).rejects.toThrow(
+    InvalidLedgerStateError,
+  );
+  await expect(gateway.atLedgerState(0)).rejects.toThrow(
+    InvalidLedgerStateError,
+  );
+  await expect(gateway.atLedgerState(1.5)).rejects.toThrow(
+    InvalidLedgerStateError,
+  );
+});
@@ -0,0 +1,112 @@
+import {
+  EntityMetadataItem,
+  GatewayApiClient,
+  MetadataTypedValue,
+  StateEntityMetadataPageRequest,
+} from "@radixdlt/babylon-gateway-api-sdk";
+import {
+  decodeMetadataValue,
+  Decimal,
+  GatewayProcessor,
+  RetryPolicy,
+} from "../src";
+
+const resource =
+  "resource_tdx_2_1tknxxxxxxxxxradxrdxxxxxxxxx009923554798xxxxxxxxxtfd2jc";
+
+function item(key: string, typed: MetadataTypedValue): EntityMetadataItem {
+  return {
+    key: key,
+    value: {
+      raw_hex: "",
+      programmatic_json: { kind: "Tuple", fields: [] },
+      typed: typed,
+    },
+    is_locked: key === "name",
+    last_updated_at_state_version: 1,
+  };
+}
+
+test("Test decode metadata values", () => {
+  expect(decodeMetadataValue({ type: "Decimal", value: "1.5" })).toEqual({
+    type: "Decimal",
+    value: Decimal.from("1.5"),
+  });
+  expect(
+    decodeMetadataValue({
+      type: "NonFungibleGlobalIdArray",
+      values: [{ resource_address: resource, non_fungible_id: "#1#" }],
+    }),
+  ).toEqual({ type: "NonFungibleGlobalIdArray", value: [`${resource}:#1#`] });
+  expect(
+    decodeMetadataValue({
+      type: "Instant",
+      value: "2024-01-01T00:00:00Z",
+      unix_timestamp_seconds: "1704067200",
+    }),
+  ).toEqual({ type: "Instant", value: new Date("2024-01-01T00:00:00Z") });
+  expect(
+    decodeMetadataValue({ type: "U8Array", value_hex: "0aff" }).value,
+  ).toEqual(new Uint8Array([10, 255]));
+  expect(
+    decodeMetadataValue({
+      type: "PublicKeyHash",
+      value: { key_hash_type: "EddsaEd25519", hash_hex: "ab" },
+    }),
+  ).toEqual({
+    type: "PublicKeyHash",
+    value: { curve: "Ed25519", hashHex: "ab" },
+  });
+});
+
+test("Test read paginated metadata", async () => {
+  // Fake Gateway serving one metadata item per page
+  const requests: StateEntityMetadataPageRequest[] = [];
+  const pages = [
+    item("name", { type: "String", value: "Radix" }),
+    item("icon_url", { type: "Url", value: "https://radixdlt.com/icon.png" }),
+    item("tags", { type: "StringArray", values: ["a", "b"] }),
+  ];
+  const api = {
+    state: {
+      innerClient: {
+        entityMetadataPage: async (params: {
+          stateEntityMetadataPageRequest: StateEntityMetadataPageRequest;
+        }) => {
+          const request = params.stateEntityMetadataPageRequest;
+          requests.push(request);
+          const index = request.cursor ? parseInt(request.cursor) : 0;
+          return {
+            ledger_state: { state_version: 100 },
+            address: request.address,
+            items: [pages[index]],
+            next_cursor:
+              index + 1 < pages.length ? (index + 1).toString() : null,
+          };
+        },
+      },
+    },
+  } as unknown as GatewayApiClient;
+
+  const processor = new GatewayProcessor(
+    api,
+    undefined,
+    undefined,
+    RetryPolicy.none(),
+  );
+  const metadata = await processor.getEntityMetadata(resource);
+
+  expect(requests).toHaveLength(3);
+  expect(requests[2]!.at_ledger_state).toEqual({ state_version: 100 });
+  expect(metadata.get("name")).toEqual({
+    key: "name",
+    value: { type: "String", value: "Radix" },
+    isLocked: true,
+    lastUpdatedAtStateVersion: 1,
+  });
+  expect(metadata.get("icon_url")?.isLocked).toBe(false);
+  expect(metadata.get("tags")?.value).toEqual({
+    type: "StringArray",
+    value: ["a", "b"],
+  });
+});
@@ -0,0 +1,107 @@
+import { GatewayApiClient } from "@radixdlt/babylon-gateway-api-sdk";
+import { NetworkId, RadixEngineToolkit } from "@radixdlt/radix-engine-toolkit";
+import {
+  GatewayProcessor,
+  NetworkContext,
+  RetryPolicy,
+  StringManifestBuilder,
+  UnknownNetworkError,
+} from "../src";
+
+test("Test registered networks", async () => {
+  const stokenet = NetworkContext.get(NetworkId.Stokenet);
+  expect(stokenet.gatewayUrl()).toBe(
+    "https://babylon-stokenet-gateway.radixdlt.com/",
+  );
+  const addresses = await stokenet.wellKnownAddresses();
+  expect(addresses.xrd).toBe(
+    "resource_tdx_2_1tknxxxxxxxxxradxrdxxxxxxxxx009923554798xxxxxxxxxtfd2jc",
+  );
+  expect(addresses.faucet.startsWith("component_tdx_2_1")).toBe(true);
+
+  expect(
+    new StringManifestBuilder()
+      .lockFeeFromFaucet(addresses)
+      .freeXrd(addresses)
+      .build(),
+  ).toContain(`Address("${addresses.faucet}")\n\t"free"`);
+
+  expect(() => NetworkContext.get(250)).toThrow(UnknownNetworkError);
+  expect(() => GatewayProcessor.fromNetworkId(250)).toThrow(
+    UnknownNetworkError,
+  );
+
+  const local = NetworkContext.registerLocal("http://localhost:8080/");
+  expect(NetworkContext.get(NetworkId.LocalNet)).toBe(local);
+  expect(
+    (await local.wellKnownAddresses()).xrd.startsWith("resource_loc1"),
+  ).toBe(true);
+});
+
+test("Test read the network configuration once", async () => {
+  let calls = 0;
+  const api = {
+    status: {
+      getNetworkConfiguration: async () => {
+        calls++;
+        return {
+          network_id: NetworkId.Stokenet,
+          well_known_addresses: {},
+        };
+      },
+    },
+  } as unknown as GatewayApiClient;
+  const processor = new GatewayProcessor(
+    api,
+    undefined,
+    undefined,
+    RetryPolicy.none(),
+  );
+
+  const xrd = await processor.xrdAddress();
+  expect(await processor.xrdAddress()).toBe(xrd);
+  expect(calls).toBe(1);
+});
+
+test("Test derive the well-known addresses again after a failure", async () => {
+  const network = NetworkContext.register({
+    networkId: 0xf0,
+    hrpSuffix: "test",
+  });
+  expect(() => network.gatewayUrl()).toThrow();
+  const knownAddresses = jest
+    .spyOn(RadixEngineToolkit.Utils, "knownAddresses")
+    .mockRejectedValueOnce(new Error("Toolkit not loaded"));
+
+  await expect(network.wellKnownAddresses()).rejects.toThrow(
+    "Toolkit not loaded",
+  );
+  expect((await network.wellKnownAddresses()).xrd).toMatch(/^resource_/);
+  expect(knownAddresses).toHaveBeenCalledTimes(2);
+  knownAddresses.mockRestore();
+});
+
+test("Test register a network whose HRP contains a 1", async () => {
+  const networkId = 0x21;
+  const xrd = (await RadixEngineToolkit.Utils.knownAddresses(networkId))
+    .resourceAddresses.xrd;
+  expect(xrd.startsWith("resource_tdx_21_1")).toBe(true);
+  const api = {
+    status: {
+      getNetworkConfiguration: async () => ({
+        network_id: networkId,
+        well_known_addresses: { xrd: xrd },
+      }),
+    },
+  } as unknown as GatewayApiClient;
+  const processor = new GatewayProcessor(
+    api,
+    undefined,
+    undefined,
+    RetryPolicy.none(),
+  );
+
+  const network = await processor.networkContext();
+  expect(network.hrpSuffix()).toBe("tdx_21_");
+  expect(NetworkContext.findByHrpSuffix("tdx_21_")).toBe(network);
+});
@@ -0,0 +1,89 @@
+import {
+  Convert,
+  hash,
+  Instruction,
+  RadixEngineToolkit,
+  TransactionManifest,
+} from "@radixdlt/radix-engine-toolkit";
+import { GatewayProcessor, PackageDeployer } from "../src";
+
+const xrd =
+  "resource_tdx_2_1tknxxxxxxxxxradxrdxxxxxxxxx009923554798xxxxxxxxxtfd2jc";
+const code = new Uint8Array([0, 97, 115, 109, 1, 0, 0, 0]);
+
+// Package definition as found in a .rpd file, with Scrypto SBOR custom kinds
+async function definition(): Promise<Uint8Array> {
+  return RadixEngineToolkit.ScryptoSbor.encodeProgrammaticJson({
+    kind: "Tuple",
+    fields: [
+      {
+        kind: "Map",
+        key_kind: "String",
+        value_kind: "Tuple",
+        entries: [
+          {
+            key: { kind: "String", value: "Blueprint" },
+            value: {
+              kind: "Tuple",
+              fields: [
+                { kind: "Decimal", value: "1.5" },
+                { kind: "Reference", value: xrd },
+              ],
+            },
+          },
+        ],
+      },
+    ],
+  });
+}
+
+// Kinds of the arguments of the single instruction of a manifest
+async function argumentKinds(manifest: TransactionManifest): Promise<string[]> {
+  const parsed = await RadixEngineToolkit.Instructions.convert(
+    manifest.instructions,
+    2,
+    "Parsed",
+  );
+  expect(parsed.value).toHaveLength(1);
+  const instruction = (parsed.value as Instruction[])[0]!;
+  if (
+    instruction.kind !== "CallFunction" ||
+    instruction.args.kind !== "Tuple"
+  ) {
+    throw new Error(`Unexpected instruction ${instruction.kind}`);
+  }
+  return instruction.args.fields.map((field) => field.kind);
+}
+
+test("Test package publishing manifests", async () => {
+  const deployer = new PackageDeployer(GatewayProcessor.fromNetworkId(2));
+  const files = { code: code, definition: await definition() };
+  const codeHash = PackageDeployer.blobHash(code);
+  expect(codeHash).toEqual(Convert.Uint8Array.toHexString(hash(code)));
+
+  const simple = await deployer.manifest(files, 2);
+  expect(simple.blobs).toEqual([code]);
+  expect(simple.instructions.value).toContain("PUBLISH_PACKAGE\n");
+  expect(simple.instructions.value).toContain(`Blob("${codeHash}")`);
+  expect(simple.instructions.value).toContain(
+    `Tuple(Decimal("1.5"), Address("${xrd}"))`,
+  );
+
+  const advanced = await deployer.manifest(files, 2, {
+    ownerBadge: `${xrd}:#1#`,
+    metadata: new Map([["name", "My package"]]),
+    lockMetadata: true,
+  });
+  expect(advanced.instructions.value).toContain("PUBLISH_PACKAGE_ADVANCED");
+  expect(advanced.instructions.value).toContain("OwnerRole::Fixed");
+
+  // Definition, code and metadata, after the owner role for the advanced variant
+  expect(await argumentKinds(simple)).toEqual(["Tuple", "Blob", "Map"]);
+  expect(await argumentKinds(advanced)).toEqual([
+    "Enum",
+    "Tuple",
+    "Blob",
+    "Map",
+    "Enum",
+  ]);
+});
@@ -0,0 +1,225 @@
+import {
+  EntityMetadataItem,
+  GatewayApiClient,
+  StateEntityDetailsOperationRequest,
+  StateEntityDetailsResponse,
+  StateEntityDetailsResponseItem,
+} from "@radixdlt/babylon-gateway-api-sdk";
+import { Decimal, GatewayProcessor, RetryPolicy } from "../src";
+import { parsePoolUnitRedemption } from "../src/GatewayProcessor/Utils";
+
+function pool(
+  blueprint: string,
+  poolUnit: string,
+  balances: Record<string, string>,
+): StateEntityDetailsResponseItem {
+  return {
+    address: "pool_1",
+    details: { type: "Component", blueprint_name: blueprint },
+    metadata: {
+      items: [
+        {
+          key: "pool_unit",
+          value: {
+            raw_hex: "",
+            programmatic_json: {},
+            typed: { type: "GlobalAddress", value: poolUnit },
+          },
+          is_locked: true,
+          last_updated_at_state_version: 1,
+        },
+      ],
+    },
+    fungible_resources: {
+      items: Object.entries(balances).map(([resource, amount]) => {
+        return {
+          aggregation_level: "Global",
+          resource_address: resource,
+          amount: amount,
+        };
+      }),
+    },
+  } as unknown as StateEntityDetailsResponseItem;
+}
+
+test("Test redeem pool units", () => {
+  const redemption = parsePoolUnitRedemption(
+    pool("TwoResourcePool", "unit_1", { xrd: "1000", token: "30" }),
+    "unit_1",
+    Decimal.from(10),
+    Decimal.from(100),
+  );
+  expect(redemption?.poolType).toBe("TwoResourcePool");
+  expect(redemption?.redeemable).toEqual(
+    new Map([
+      ["xrd", Decimal.from(100)],
+      ["token", Decimal.from(3)],
+    ]),
+  );
+});
+
+test("Test ignore entities that are not the pool of the unit", () => {
+  expect(
+    parsePoolUnitRedemption(
+      pool("TwoResourcePool", "unit_2", { xrd: "1000" }),
+      "unit_1",
+      Decimal.from(10),
+      Decimal.from(100),
+    ),
+  ).toBeUndefined();
+  expect(
+    parsePoolUnitRedemption(
+      pool("Radiswap", "unit_1", { xrd: "1000" }),
+      "unit_1",
+      Decimal.from(10),
+      Decimal.from(100),
+    ),
+  ).toBeUndefined();
+});
+
+function globalAddress(key: string, address: string): EntityMetadataItem {
+  return {
+    key: key,
+    value: {
+      raw_hex: "",
+      programmatic_json: { kind: "Reference", value: address },
+      typed: { type: "GlobalAddress", value: address },
+    },
+    is_locked: true,
+    last_updated_at_state_version: 1,
+  };
+}
+
+// Fungible resource without name, pointing to its pool when it is a pool unit
+function resource(
+  address: string,
+  pool?: string,
+): StateEntityDetailsResponseItem {
+  return {
+    address: address,
+    metadata: { items: pool ? [globalAddress("pool", pool)] : [] },
+    details: {
+      type: "FungibleResource",
+      role_assignments: { owner: { rule: { type: "DenyAll" } }, entries: [] },
+      divisibility: 18,
+      total_supply: "100",
+      total_minted: "100",
+      total_burned: "0",
+    },
+  };
+}
+
+function poolComponent(
+  address: string,
+  blueprint: string,
+  poolUnit: string,
+  balances: Record<string, string>,
+): StateEntityDetailsResponseItem {
+  return {
+    address: address,
+    metadata: { items: [globalAddress("pool_unit", poolUnit)] },
+    details: {
+      type: "Component",
+      blueprint_name: blueprint,
+      blueprint_version: "1.0.0",
+    },
+    fungible_resources: {
+      items: Object.entries(balances).map(([resource, amount]) => {
+        return {
+          aggregation_level: "Global",
+          resource_address: resource,
+          amount: amount,
+          last_updated_at_state_version: 1,
+        };
+      }),
+    },
+  };
+}
+
+test("Test pool units held by an account", async () => {
+  const held = ["unit_one", "unit_two", "unit_multi", "token"];
+  const entities = new Map(
+    [
+      {
+        address: "account_1",
+        metadata: { items: [] },
+        fungible_resources: {
+          items: held.map((address) => {
+            return {
+              aggregation_level: "Global",
+              resource_address: address,
+              amount: "10",
+              last_updated_at_state_version: 1,
+            };
+          }),
+        },
+      } as StateEntityDetailsResponseItem,
+      resource("unit_one", "pool_one"),
+      resource("unit_two", "pool_two"),
+      resource("unit_multi", "pool_multi"),
+      resource("token"),
+      poolComponent("pool_one", "OneResourcePool", "unit_one", { xrd: "50" }),
+      poolComponent("pool_two", "TwoResourcePool", "unit_two", {
+        xrd: "1000",
+        token: "30",
+      }),
+      poolComponent("pool_multi", "MultiResourcePool", "unit_multi", {
+        xrd: "200",
+        token: "20",
+        other: "7",
+      }),
+    ].map((item) => [item.address, item]),
+  );
+  const api = {
+    state: {
+      innerClient: {
+        stateEntityDetails: async (
+          request: StateEntityDetailsOperationRequest,
+        ): Promise<StateEntityDetailsResponse> => ({
+          ledger_state: {
+            network: "stokenet",
+            state_version: 1,
+            proposer_round_timestamp: "2024-01-01T00:00:00Z",
+            epoch: 1,
+            round: 1,
+          },
+          items: request.stateEntityDetailsRequest.addresses.map(
+            (address) => entities.get(address)!,
+          ),
+        }),
+      },
+    },
+  } as unknown as GatewayApiClient;
+
+  const processor = new GatewayProcessor(
+    api,
+    undefined,
+    undefined,
+    RetryPolicy.none(),
+  );
+  const fungibles = await processor.getFungibleResourcesHeldBy("account_1");
+  const poolUnits = new Map(
+    fungibles.map((fungible) => [fungible.address, fungible.poolUnit]),
+  );
+  expect([...poolUnits.keys()].sort()).toEqual([...held].sort());
+  expect(poolUnits.get("token")).toBeUndefined();
+  expect(poolUnits.get("unit_one")?.poolType).toBe("OneResourcePool");
+  expect(poolUnits.get("unit_one")?.redeemable).toEqual(
+    new Map([["xrd", Decimal.from(5)]]),
+  );
+  expect(poolUnits.get("unit_two")?.poolType).toBe("TwoResourcePool");
+  expect(poolUnits.get("unit_two")?.redeemable).toEqual(
+    new Map([
+      ["xrd", Decimal.from(100)],
+      ["token", Decimal.from(3)],
+    ]),
+  );
+  expect(poolUnits.get("unit_multi")?.poolType).toBe("MultiResourcePool");
+  expect(poolUnits.get("unit_multi")?.redeemable).toEqual(
+    new Map([
+      ["xrd", Decimal.from(20)],
+      ["token", Decimal.from(2)],
+      ["other", Decimal.from("0.7")],
+    ]),
+  );
+});
@@ -0,0 +1,68 @@
+import { ResponseError } from "@radixdlt/babylon-gateway-api-sdk";
+import { RequestScheduler, retryAfterDelay } from "../src";
+
+function deferred() {
+  let resolve: () => void = () => {};
+  const promise = new Promise<void>((r) => (resolve = r));
+  return { promise, resolve };
+}
+
+test("Test max in flight and priority lanes", async () => {
+  const scheduler = new RequestScheduler({ maxInFlight: 1 });
+  const first = deferred();
+  const order: string[] = [];
+
+  const running = scheduler.schedule(async () => {
+    await first.promise;
+    order.push("first");
+  });
+  const background = scheduler.schedule(async () => {
+    order.push("background");
+  }, "background");
+  const interactive = scheduler.schedule(async () => {
+    order.push("interactive");
+  });
+
+  expect(scheduler.inFlight()).toBe(1);
+  expect(scheduler.pending()).toBe(2);
+  first.resolve();
+  await Promise.all([running, background, interactive]);
+  expect(order).toEqual(["first", "interactive", "background"]);
+});
+
+test("Test token bucket and pauses", async () => {
+  const scheduler = new RequestScheduler({
+    maxInFlight: 10,
+    requestsPerSecond: 20,
+    burst: 1,
+  });
+  const start = Date.now();
+  await Promise.all(
+    [1, 2, 3].map(() => scheduler.schedule(async () => Date.now())),
+  );
+  // One request from the burst, then one every 50ms
+  expect(Date.now() - start).toBeGreaterThanOrEqual(90);
+
+  scheduler.pause(100);
+  const paused = Date.now();
+  await scheduler.schedule(async () => {});
+  expect(Date.now() - paused).toBeGreaterThanOrEqual(90);
+});
+
+test("Test read Retry-After of 429 responses", () => {
+  const error = (status: number, retryAfter?: string) =>
+    new ResponseError(
+      new Response("", {
+        status: status,
+        headers: retryAfter ? { "Retry-After": retryAfter } : {},
+      }),
+      status,
+      undefined,
+    );
+
+  expect(retryAfterDelay(error(429, "2"))).toBe(2000);
+  expect(retryAfterDelay(error(429))).toBeUndefined();
+  expect(retryAfterDelay(error(503, "2"))).toBeUndefined();
+  const date = new Date(Date.now() + 5000).toUTCString();
+  expect(retryAfterDelay(error(429, date))).toBeGreaterThan(3000);
+});
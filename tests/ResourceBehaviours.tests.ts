@@ -0,0 +1,62 @@
+import { ComponentEntityRoleAssignments } from "@radixdlt/babylon-gateway-api-sdk";
+import { parseResourceBehaviours } from "../src/GatewayProcessor/Utils";
+
+function roles(
+  owner: string,
+  assignments: Record<string, string>,
+): ComponentEntityRoleAssignments {
+  return {
+    owner: { rule: { type: owner }, updater: "None" },
+    entries: Object.entries(assignments).map(([name, rule]) => {
+      return {
+        role_key: { module: "Main", name: name },
+        assignment:
+          rule === "Owner"
+            ? { resolution: "Owner" }
+            : { resolution: "Explicit", explicit_rule: { type: rule } },
+      };
+    }),
+  } as ComponentEntityRoleAssignments;
+}
+
+test("Test behaviours of a plain token", () => {
+  expect(
+    parseResourceBehaviours(
+      roles("DenyAll", {
+        minter: "DenyAll",
+        minter_updater: "DenyAll",
+        withdrawer: "AllowAll",
+        withdrawer_updater: "DenyAll",
+        depositor: "AllowAll",
+        depositor_updater: "DenyAll",
+      }),
+    ),
+  ).toEqual({
+    mintable: false,
+    burnable: false,
+    freezable: false,
+    recallable: false,
+    restrictedWithdraw: false,
+    restrictedDeposit: false,
+  });
+});
+
+test("Test behaviours of a controlled token", () => {
+  const behaviours = parseResourceBehaviours(
+    roles("Protected", {
+      minter: "Owner",
+      burner: "DenyAll",
+      burner_updater: "Protected",
+      recaller: "Protected",
+      freezer: "DenyAll",
+      withdrawer: "AllowAll",
+      depositor: "Protected",
+    }),
+  );
+  expect(behaviours.mintable).toBe(true);
+  expect(behaviours.burnable).toBe(true);
+  expect(behaviours.recallable).toBe(true);
+  expect(behaviours.freezable).toBe(false);
+  expect(behaviours.restrictedWithdraw).toBe(false);
+  expect(behaviours.restrictedDeposit).toBe(true);
+});
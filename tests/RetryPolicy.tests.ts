@@ -0,0 +1,131 @@
+import { ResponseError } from "@radixdlt/babylon-gateway-api-sdk";
+import {
+  isTransientError,
+  Logger,
+  MetricsCollector,
+  RetryPolicy,
+  silentLogger,
+} from "../src";
+
+function responseError(status: number): ResponseError {
+  return new ResponseError(
+    new Response("", { status: status }),
+    status,
+    undefined,
+  );
+}
+
+test("Test error classification", () => {
+  expect(isTransientError(new TypeError("fetch failed"))).toBe(true);
+  expect(isTransientError(responseError(429))).toBe(true);
+  expect(isTransientError(responseError(503))).toBe(true);
+  expect(isTransientError(responseError(400))).toBe(false);
+  expect(isTransientError(responseError(404))).toBe(false);
+});
+
+test("Test permanent errors are not retried", async () => {
+  const policy = new RetryPolicy({ initialDelay: 1, jitter: 0 });
+  let calls = 0;
+  await expect(
+    policy.run(
+      async () => {
+        calls += 1;
+        throw responseError(400);
+      },
+      "Permanent error",
+      { endpoint: "entityDetails", logger: silentLogger },
+    ),
+  ).rejects.toThrow(ResponseError);
+  expect(calls).toEqual(1);
+});
+
+test("Test transient errors are retried", async () => {
+  const policy = new RetryPolicy({ initialDelay: 1, jitter: 0 });
+  let calls = 0;
+  const result = await policy.run(async () => {
+    calls += 1;
+    if (calls < 3) {
+      throw responseError(503);
+    }
+    return "done";
+  }, "Transient error");
+  expect(result).toEqual("done");
+  expect(calls).toEqual(3);
+});
+
+test("Test retry policy overrides and backoff", () => {
+  const policy = new RetryPolicy({
+    initialDelay: 100,
+    maxDelay: 1000,
+    jitter: 0,
+  }).withOverride("entityDetails", { maxAttempts: 2 });
+
+  expect(policy.delay(1)).toEqual(100);
+  expect(policy.delay(3)).toEqual(400);
+  expect(policy.delay(10)).toEqual(1000);
+  expect(policy.forMethod("entityDetails").options().maxAttempts).toEqual(2);
+  expect(policy.forMethod("ledgerState").options().maxAttempts).toEqual(30);
+});
+
+test("Test instrumentation and metrics", async () => {
+  const policy = new RetryPolicy({
+    initialDelay: 1,
+    jitter: 0,
+    maxAttempts: 2,
+  });
+  const metrics = new MetricsCollector();
+  const events: string[] = [];
+  let logged: string[] = [];
+  const logger: Logger = {
+    debug: () => {},
+    info: () => {},
+    warn: () => {},
+    error: (message) => logged.push(message),
+  };
+  const observer = {
+    endpoint: "entityDetails",
+    logger: logger,
+    instrumentation: [
+      metrics,
+      {
+        onRetry: (event: { attempt: number; error: unknown }) =>
+          events.push(`retry ${event.attempt}`),
+        onGiveUp: (event: { attempt: number }) =>
+          events.push(`give up ${event.attempt}`),
+      },
+    ],
+  };
+
+  let calls = 0;
+  await policy.run(
+    async () => {
+      calls += 1;
+      if (calls < 2) {
+        throw responseError(503);
+      }
+      return "done";
+    },
+    "Transient error",
+    observer,
+  );
+  await expect(
+    policy.run(
+      async () => {
+        throw responseError(503);
+      },
+      "Gave up",
+      observer,
+    ),
+  ).rejects.toThrow(ResponseError);
+
+  expect(events).toEqual(["retry 1", "retry 1", "give up 2"]);
+  expect(logged).toEqual(["Gave up"]);
+  const endpoint = metrics.metrics().get("entityDetails")!;
+  expect(endpoint).toMatchObject({
+    requests: 4,
+    successes: 1,
+    retries: 2,
+    giveUps: 1,
+  });
+  expect(endpoint.latency!.p99).toBeGreaterThanOrEqual(0);
+});
@@ -0,0 +1,81 @@
+import { ProgrammaticScryptoSborValue } from "@radixdlt/babylon-gateway-api-sdk";
+import { RadixEngineToolkit } from "@radixdlt/radix-engine-toolkit";
+import { CodecType, Sbor, SborCodecError, StringManifestBuilder } from "../src";
+
+const account =
+  "account_tdx_2_12yx3ftggkd62d5hew8pfkm9tfffenyj5zy4gvd2hdemqck64ywsvx4";
+const resource =
+  "resource_tdx_2_1ngw6cufaxs5p82kw49juy2yfkt53se76vr0xfsu3tvyduuw6s0y6lc";
+
+const heroCodec = Sbor.struct({
+  level: Sbor.u32,
+  traits: Sbor.vec(Sbor.string),
+  owner: Sbor.option(Sbor.address),
+});
+
+function heroData(level: ProgrammaticScryptoSborValue) {
+  return {
+    kind: "Tuple",
+    fields: [
+      { ...level, field_name: "level" },
+      {
+        kind: "Array",
+        field_name: "traits",
+        element_kind: "String",
+        elements: [{ kind: "String", value: "brave" }],
+      },
+      {
+        kind: "Enum",
+        field_name: "owner",
+        variant_id: "1",
+        variant_name: "Some",
+        fields: [{ kind: "Reference", value: account }],
+      },
+    ],
+  } as ProgrammaticScryptoSborValue;
+}
+
+test("Test decode with codec", () => {
+  const hero: CodecType<typeof heroCodec> = heroCodec.decode(
+    heroData({ kind: "U32", value: "7" }),
+  );
+  expect(hero).toEqual({ level: 7, traits: ["brave"], owner: account });
+
+  expect(() =>
+    heroCodec.decode(heroData({ kind: "String", value: "7" })),
+  ).toThrow(new SborCodecError("$.level", "expected U32, found String"));
+});
+
+test("Test encode with codec to a compiling manifest", async () => {
+  const manifest = new StringManifestBuilder()
+    .mintTypedNonFungible(
+      resource,
+      heroCodec,
+      new Map([
+        ["#1#", { level: 1, traits: ['say "hi"'], owner: account }],
+        ["#2#", { level: 2, traits: [], owner: null }],
+      ]),
+    )
+    .build();
+  expect(manifest).toContain(
+    `Tuple(Tuple(1u32, Array<String>("say \\"hi\\""), Some(Address("${account}"))))`,
+  );
+  expect(manifest).toContain(`Tuple(Tuple(2u32, Array<String>(), None))`);
+
+  const parsed = await RadixEngineToolkit.Instructions.convert(
+    { kind: "String", value: manifest },
+    2,
+    "Parsed",
+  );
+  expect(parsed.value).toHaveLength(1);
+});
+
+test("Test integer range checks", () => {
+  expect(Sbor.u8.encode(255)).toEqual("255u8");
+  expect(Sbor.i8.encode(-128)).toEqual("-128i8");
+  expect(Sbor.u32.encode(2 ** 32 - 1)).toEqual("4294967295u32");
+  expect(() => Sbor.u8.encode(256)).toThrow(SborCodecError);
+  expect(() => Sbor.u16.encode(-1)).toThrow(SborCodecError);
+  expect(() => Sbor.i32.encode(2 ** 31)).toThrow(SborCodecError);
+  expect(() => Sbor.u32.encode(1.5)).toThrow(SborCodecError);
+});
@@ -0,0 +1,78 @@
+import BigNumber from "bignumber.js";
+import { ProgrammaticScryptoSborValue } from "@radixdlt/babylon-gateway-api-sdk";
+import { decodeSbor, Decimal } from "../src";
+
+test("Test decode nested non-fungible data", () => {
+  const data = {
+    kind: "Tuple",
+    fields: [
+      { kind: "String", field_name: "name", value: "Hero" },
+      { kind: "Decimal", field_name: "power", value: "12.5" },
+      { kind: "U8", field_name: "level", value: "3" },
+      {
+        kind: "Tuple",
+        field_name: "stats",
+        fields: [
+          { kind: "U64", field_name: "xp", value: "18446744073709551615" },
+          { kind: "Bool", field_name: "retired", value: false },
+        ],
+      },
+      {
+        kind: "Array",
+        field_name: "tags",
+        element_kind: "String",
+        elements: [
+          { kind: "String", value: "fire" },
+          { kind: "String", value: "rare" },
+        ],
+      },
+      {
+        kind: "Map",
+        field_name: "items",
+        key_kind: "String",
+        value_kind: "U32",
+        entries: [
+          {
+            key: { kind: "String", value: "sword" },
+            value: { kind: "U32", value: "1" },
+          },
+        ],
+      },
+      {
+        kind: "Enum",
+        field_name: "guild",
+        type_name: "Option",
+        variant_id: "0",
+        variant_name: "None",
+        fields: [],
+      },
+      {
+        kind: "Enum",
+        field_name: "class",
+        variant_id: "1",
+        variant_name: "Mage",
+        fields: [{ kind: "String", value: "ice" }],
+      },
+      {
+        kind: "Tuple",
+        field_name: "position",
+        fields: [
+          { kind: "I32", value: "-4" },
+          { kind: "I32", value: "7" },
+        ],
+      },
+    ],
+  } as ProgrammaticScryptoSborValue;
+
+  expect(decodeSbor(data)).toEqual({
+    name: "Hero",
+    power: Decimal.from("12.5"),
+    level: 3,
+    stats: { xp: new BigNumber("18446744073709551615"), retired: false },
+    tags: ["fire", "rare"],
+    items: new Map([["sword", 1]]),
+    guild: null,
+    class: { variant: "Mage", fields: ["ice"] },
+    position: [-4, 7],
+  });
+});
@@ -0,0 +1,76 @@
+import { createServer, Server } from "http";
+import { AddressInfo } from "net";
+import { Convert, PrivateKey } from "@radixdlt/radix-engine-toolkit";
+import { KeystoreSigner, LocalSigner, RemoteSigner } from "../src";
+
+const privateKey = new PrivateKey.Ed25519(
+  "4a8b3c5e1d2f6a7b8c9d0e1f2a3b4c5d6e7f8091a2b3c4d5e6f708192a3b4c5d",
+);
+const hash = new Uint8Array(32).fill(7);
+
+test("Test local signer", async () => {
+  const signer = new LocalSigner(privateKey);
+  expect((await signer.publicKey()).hex()).toEqual(privateKey.publicKeyHex());
+  expect((await signer.signToSignature(hash)).hex()).toEqual(
+    privateKey.signToSignature(hash).hex(),
+  );
+});
+
+test("Test keystore signer", async () => {
+  const keystore = await KeystoreSigner.encrypt(privateKey, "passphrase", 1000);
+  expect(keystore.ciphertext).not.toContain(
+    Convert.Uint8Array.toHexString(privateKey.bytes),
+  );
+
+  const signer = new KeystoreSigner(keystore, "passphrase");
+  expect((await signer.publicKey()).hex()).toEqual(privateKey.publicKeyHex());
+  expect((await signer.signToSignature(hash)).hex()).toEqual(
+    privateKey.signToSignature(hash).hex(),
+  );
+
+  const wrongSigner = new KeystoreSigner(keystore, "wrong");
+  await expect(wrongSigner.signToSignature(hash)).rejects.toThrow(
+    "Could not decrypt keystore",
+  );
+});
+
+test("Test remote signer", async () => {
+  // Local stand-in for a remote signing service
+  const server: Server = createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      res.setHeader("content-type", "application/json");
+      if (req.method === "GET" && req.url === "/public-key") {
+        res.end(
+          JSON.stringify({
+            curve: "Ed25519",
+            publicKey: privateKey.publicKeyHex(),
+          }),
+        );
+      } else if (req.method === "POST" && req.url === "/sign") {
+        const toSign = Convert.HexString.toUint8Array(JSON.parse(body).hash);
+        res.end(
+          JSON.stringify({
+            signature: privateKey.signToSignature(toSign).hex(),
+          }),
+        );
+      } else {
+        res.statusCode = 404;
+        res.end("{}");
+      }
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, resolve));
+
+  try {
+    const port = (server.address() as AddressInfo).port;
+    const signer = new RemoteSigner(`http://127.0.0.1:${port}/`);
+    expect((await signer.publicKey()).hex()).toEqual(privateKey.publicKeyHex());
+    expect((await signer.signToSignature(hash)).hex()).toEqual(
+      privateKey.signToSignature(hash).hex(),
+    );
+  } finally {
+    await new Promise((resolve) => server.close(resolve));
+  }
+});
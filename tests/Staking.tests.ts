@@ -0,0 +1,272 @@
+import {
+  EntityFungiblesPageRequest,
+  EntityNonFungiblesPageRequest,
+  GatewayApiClient,
+  StateValidatorsListRequest,
+} from "@radixdlt/babylon-gateway-api-sdk";
+import { Decimal, GatewayProcessor, RetryPolicy } from "../src";
+
+const account =
+  "account_tdx_2_12yx3ftggkd62d5hew8pfkm9tfffenyj5zy4gvd2hdemqck64ywsvx4";
+
+function validator(index: number, active: boolean) {
+  return {
+    address: `validator_${index}`,
+    stake_vault: { address: `vault_${index}`, balance: "1000" },
+    state: {
+      is_registered: active,
+      accepts_delegated_stake: true,
+      stake_unit_resource_address: `lsu_${index}`,
+      claim_token_resource_address: `claim_${index}`,
+    },
+    active_in_epoch: active
+      ? { stake: "1000", stake_percentage: 50, key: {} }
+      : undefined,
+    effective_fee_factor: {
+      current: { fee_factor: "0.02" },
+      pending: active
+        ? undefined
+        : { fee_factor: "0.05", effective_at_epoch: 120 },
+    },
+    metadata: {
+      items: [
+        {
+          key: "name",
+          value: {
+            raw_hex: "",
+            programmatic_json: {},
+            typed: { type: "String", value: `Validator ${index}` },
+          },
+          is_locked: false,
+          last_updated_at_state_version: 1,
+        },
+      ],
+    },
+  };
+}
+
+function fakeApi(requests: StateValidatorsListRequest[]): GatewayApiClient {
+  const validators = [validator(1, true), validator(2, false)];
+  return {
+    state: {
+      innerClient: {
+        stateValidatorsList: async (params: {
+          stateValidatorsListRequest: StateValidatorsListRequest;
+        }) => {
+          const request = params.stateValidatorsListRequest;
+          requests.push(request);
+          const index = request.cursor ? parseInt(request.cursor) : 0;
+          return {
+            ledger_state: { state_version: 100, epoch: 110 },
+            validators: {
+              items: [validators[index]],
+              next_cursor:
+                index + 1 < validators.length ? (index + 1).toString() : null,
+            },
+          };
+        },
+        stateEntityDetails: async (params: {
+          stateEntityDetailsRequest: { addresses: string[] };
+        }) => {
+          return {
+            ledger_state: { state_version: 100, epoch: 110 },
+            items: params.stateEntityDetailsRequest.addresses.map((address) =>
+              address === account
+                ? {
+                    address: account,
+                    // Stake units on the second page
+                    fungible_resources: {
+                      items: [
+                        {
+                          aggregation_level: "Global",
+                          resource_address: "other",
+                          amount: "5",
+                        },
+                      ],
+                      next_cursor: "1",
+                    },
+                    non_fungible_resources: { items: [] },
+                  }
+                : {
+                    address: address,
+                    details: { type: "FungibleResource", total_supply: "500" },
+                  },
+            ),
+          };
+        },
+        entityFungiblesPage: async (params: EntityFungiblesPageRequest) => {
+          const request = params.stateEntityFungiblesPageRequest;
+          expect(request.cursor).toBe("1");
+          expect(request.at_ledger_state).toEqual({ state_version: 100 });
+          return {
+            ledger_state: { state_version: 100, epoch: 110 },
+            items: [
+              {
+                aggregation_level: "Global",
+                resource_address: "lsu_1",
+                amount: "50",
+              },
+            ],
+            next_cursor: null,
+          };
+        },
+        // Claim NFTs on the second page
+        entityNonFungiblesPage: async (
+          params: EntityNonFungiblesPageRequest,
+        ) => {
+          const request = params.stateEntityNonFungiblesPageRequest;
+          expect(request.at_ledger_state).toEqual({ state_version: 100 });
+          return {
+            ledger_state: { state_version: 100, epoch: 110 },
+            items: request.cursor
+              ? [
+                  {
+                    aggregation_level: "Vault",
+                    resource_address: "claim_1",
+                    vaults: {
+                      items: [
+                        { vault_address: "claim_vault", items: ["#1#", "#2#"] },
+                      ],
+                    },
+                  },
+                ]
+              : [
+                  {
+                    aggregation_level: "Vault",
+                    resource_address: "other_nft",
+                    vaults: { items: [] },
+                  },
+                ],
+            next_cursor: request.cursor ? null : "1",
+          };
+        },
+      },
+      getNonFungibleData: async (address: string, ids: string[]) => {
+        expect(address).toBe("claim_1");
+        return ids.map((id) => ({
+          non_fungible_id: id,
+          data: {
+            programmatic_json: {
+              kind: "Tuple",
+              fields: [
+                { kind: "String", field_name: "name", value: "Stake Claim" },
+                {
+                  kind: "U64",
+                  field_name: "claim_epoch",
+                  value: id === "#1#" ? "110" : "120",
+                },
+                { kind: "Decimal", field_name: "claim_amount", value: "12.5" },
+              ],
+            },
+          },
+        }));
+      },
+    },
+    status: {
+      getCurrent: async () => ({
+        ledger_state: { state_version: 100, epoch: 110 },
+      }),
+    },
+    statistics: {
+      innerClient: {
+        validatorsUptime: async () => {
+          return {
+            validators: {
+              items: [
+                {
+                  address: "validator_1",
+                  proposals_made: 99,
+                  proposals_missed: 1,
+                  epochs_active_in: 10,
+                },
+                { address: "validator_2", epochs_active_in: 0 },
+              ],
+            },
+          };
+        },
+      },
+    },
+  } as unknown as GatewayApiClient;
+}
+
+test("Test list validators", async () => {
+  const requests: StateValidatorsListRequest[] = [];
+  const processor = new GatewayProcessor(
+    fakeApi(requests),
+    undefined,
+    undefined,
+    RetryPolicy.none(),
+  );
+  const validators = await processor.getValidators();
+
+  expect(requests).toHaveLength(2);
+  expect(requests[1]!.at_ledger_state).toEqual({ state_version: 100 });
+  expect(validators).toHaveLength(2);
+  expect(validators[0]).toMatchObject({
+    address: "validator_1",
+    name: "Validator 1",
+    stake: Decimal.from(1000),
+    stakePercentage: 50,
+    fee: 0.02,
+    isRegistered: true,
+    isActive: true,
+    acceptsDelegatedStake: true,
+    uptime: 0.99,
+    stakeUnitAddress: "lsu_1",
+    claimNftAddress: "claim_1",
+  });
+  expect(validators[1]!.isActive).toBe(false);
+  expect(validators[1]!.uptime).toBeUndefined();
+  expect(validators[1]!.pendingFee).toEqual({
+    fee: 0.05,
+    effectiveAtEpoch: 120,
+  });
+});
+
+test("Test resolve stake units into XRD", async () => {
+  const processor = new GatewayProcessor(
+    fakeApi([]),
+    undefined,
+    undefined,
+    RetryPolicy.none(),
+  );
+  const holdings = await processor.getStakeUnitsHeldBy(account);
+
+  expect(holdings).toEqual([
+    {
+      validator: "validator_1",
+      stakeUnitAddress: "lsu_1",
+      amount: Decimal.from(50),
+      xrdValue: Decimal.from(100),
+    },
+  ]);
+});
+
+test("Test list unstake claims with their claim epoch", async () => {
+  const processor = new GatewayProcessor(
+    fakeApi([]),
+    undefined,
+    undefined,
+    RetryPolicy.none(),
+  );
+  const claims = await processor.getUnstakeClaimsHeldBy(account);
+
+  expect(claims).toEqual([
+    {
+      validator: "validator_1",
+      claimNftAddress: "claim_1",
+      id: "#1#",
+      xrdAmount: Decimal.from("12.5"),
+      claimEpoch: 110,
+      claimable: true,
+    },
+    {
+      validator: "validator_1",
+      claimNftAddress: "claim_1",
+      id: "#2#",
+      xrdAmount: Decimal.from("12.5"),
+      claimEpoch: 120,
+      claimable: false,
+    },
+  ]);
+});
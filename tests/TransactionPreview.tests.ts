@@ -0,0 +1,63 @@
+import { TransactionPreviewResponse } from "@radixdlt/babylon-gateway-api-sdk";
+import { parseTransactionPreview } from "../src/GatewayProcessor/Utils";
+
+const account =
+  "account_tdx_2_12yx3ftggkd62d5hew8pfkm9tfffenyj5zy4gvd2hdemqck64ywsvx4";
+const xrd =
+  "resource_tdx_2_1tknxxxxxxxxxradxrdxxxxxxxxx009923554798xxxxxxxxxtfd2jc";
+
+test("Test parse transaction preview", () => {
+  const preview = parseTransactionPreview({
+    encoded_receipt: "",
+    logs: [],
+    receipt: {
+      status: "Succeeded",
+      fee_summary: {
+        xrd_total_execution_cost: "0.2",
+        xrd_total_finalization_cost: "0.05",
+        xrd_total_storage_cost: "0.1",
+        xrd_total_royalty_cost: "0",
+        xrd_total_tipping_cost: "0",
+      },
+      state_updates: {
+        new_global_entities: [
+          {
+            entity_type: "GlobalFungibleResource",
+            entity_address: "resource_tdx_2_1new",
+          },
+        ],
+      },
+    },
+    resource_changes: [
+      {
+        index: 0,
+        resource_changes: [
+          {
+            resource_address: xrd,
+            component_entity: { entity_address: account },
+            amount: "-10",
+          },
+        ],
+      },
+      {
+        index: 2,
+        resource_changes: [
+          {
+            resource_address: xrd,
+            component_entity: { entity_address: account },
+            amount: "2.5",
+          },
+        ],
+      },
+    ],
+  } as TransactionPreviewResponse);
+
+  expect(preview.success).toBe(true);
+  expect(preview.fees.total.toFixed()).toEqual("0.35");
+  expect(preview.balanceChanges.get(account)?.get(xrd)?.toFixed()).toEqual(
+    "-7.5",
+  );
+  expect(preview.newEntities).toEqual([
+    { address: "resource_tdx_2_1new", entityType: "GlobalFungibleResource" },
+  ]);
+});
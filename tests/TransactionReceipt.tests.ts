@@ -0,0 +1,80 @@
+import { CommittedTransactionInfo } from "@radixdlt/babylon-gateway-api-sdk";
+import { parseTransactionReceipt } from "../src/GatewayProcessor/Utils";
+
+const account =
+  "account_tdx_2_12yx3ftggkd62d5hew8pfkm9tfffenyj5zy4gvd2hdemqck64ywsvx4";
+const xrd =
+  "resource_tdx_2_1tknxxxxxxxxxradxrdxxxxxxxxx009923554798xxxxxxxxxtfd2jc";
+
+test("Test parse transaction receipt", () => {
+  const receipt = parseTransactionReceipt({
+    state_version: 42,
+    epoch: 1,
+    round: 1,
+    round_timestamp: "",
+    transaction_status: "CommittedSuccess",
+    intent_hash: "txid_1",
+    receipt: {
+      status: "CommittedSuccess",
+      fee_summary: {
+        xrd_total_execution_cost: "0.3",
+        xrd_total_finalization_cost: "0.1",
+        xrd_total_storage_cost: "0.1",
+        xrd_total_royalty_cost: "0",
+        xrd_total_tipping_cost: "0",
+      },
+      state_updates: {
+        new_global_entities: [
+          {
+            entity_type: "GlobalGenericComponent",
+            entity_address: "component_tdx_2_1new",
+          },
+          {
+            entity_type: "GlobalNonFungibleResource",
+            entity_address: "resource_tdx_2_1new",
+          },
+          {
+            entity_type: "GlobalPackage",
+            entity_address: "package_tdx_2_1new",
+          },
+        ],
+      },
+      events: [],
+    },
+    balance_changes: {
+      fungible_fee_balance_changes: [],
+      fungible_balance_changes: [
+        {
+          entity_address: account,
+          resource_address: xrd,
+          balance_change: "-10",
+        },
+      ],
+      non_fungible_balance_changes: [
+        {
+          entity_address: account,
+          resource_address: "resource_tdx_2_1new",
+          added: ["#1#"],
+          removed: [],
+        },
+      ],
+    },
+  } as CommittedTransactionInfo);
+
+  expect(receipt.success).toBe(true);
+  expect(receipt.intentHash).toEqual("txid_1");
+  expect(receipt.stateVersion).toEqual(42);
+  expect(receipt.fees.total.toString()).toEqual("0.5");
+  expect(receipt.createdEntities.components).toEqual(["component_tdx_2_1new"]);
+  expect(receipt.createdEntities.resources).toEqual(["resource_tdx_2_1new"]);
+  expect(receipt.createdEntities.packages).toEqual(["package_tdx_2_1new"]);
+  expect(receipt.createdEntities.accounts).toEqual([]);
+  expect(receipt.balanceChanges.get(account)?.get(xrd)?.toString()).toEqual(
+    "-10",
+  );
+  expect(
+    receipt.nonFungibleBalanceChanges.get(account)?.get("resource_tdx_2_1new")
+      ?.added,
+  ).toEqual(["#1#"]);
+  expect(receipt.events).toEqual([]);
+});
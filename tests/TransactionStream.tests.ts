@@ -0,0 +1,137 @@
+import {
+  CommittedTransactionInfo,
+  GatewayApiClient,
+  ResponseError,
+  StreamTransactionsResponse,
+} from "@radixdlt/babylon-gateway-api-sdk";
+import {
+  GatewayProcessor,
+  InvalidLedgerStateError,
+  RetryPolicy,
+  TransactionStream,
+} from "../src";
+
+function transaction(stateVersion: number): CommittedTransactionInfo {
+  return {
+    state_version: stateVersion,
+    epoch: 1,
+    round: 1,
+    round_timestamp: "",
+    transaction_status:
+      stateVersion % 5 === 0 ? "CommittedFailure" : "CommittedSuccess",
+    fee_paid: "0",
+    confirmed_at: new Date(),
+  } as CommittedTransactionInfo;
+}
+
+// Fake ledger served in pages of 4, rejecting state versions beyond its top like the Gateway
+function fetchPage(ledgerTop: () => number) {
+  return async (
+    fromStateVersion: number,
+    cursor?: string,
+  ): Promise<StreamTransactionsResponse> => {
+    if (fromStateVersion > ledgerTop()) {
+      throw new ResponseError(
+        new Response("", { status: 400 }),
+        "Ledger state beyond the top of the ledger",
+        undefined,
+      );
+    }
+    const start = cursor ? parseInt(cursor) : fromStateVersion;
+    const end = Math.min(start + 4, ledgerTop() + 1);
+    const items = [];
+    for (let i = start; i < end; i++) {
+      items.push(transaction(i));
+    }
+    return {
+      ledger_state: {} as StreamTransactionsResponse["ledger_state"],
+      items: items,
+      next_cursor: end <= ledgerTop() ? end.toString() : null,
+    };
+  };
+}
+
+test("Test stream and resume from checkpoint", async () => {
+  const stream = new TransactionStream(fetchPage(() => 12));
+  const read: number[] = [];
+  for await (const tx of stream) {
+    read.push(tx.state_version);
+    if (tx.state_version === 6) {
+      break;
+    }
+  }
+  expect(read).toEqual([1, 2, 3, 4, 6]);
+  expect(stream.checkpoint()?.stateVersion).toEqual(6);
+
+  const resumed = new TransactionStream(
+    fetchPage(() => 12),
+    {
+      checkpoint: stream.checkpoint(),
+      includeFailures: true,
+    },
+  );
+  const rest: number[] = [];
+  for await (const tx of resumed) {
+    rest.push(tx.state_version);
+  }
+  expect(rest).toEqual([7, 8, 9, 10, 11, 12]);
+});
+
+test("Test stream tail mode", async () => {
+  let top = 3;
+  const stream = new TransactionStream(
+    fetchPage(() => top),
+    { tail: true, pollingInterval: 1 },
+  );
+  const read: number[] = [];
+  for await (const tx of stream) {
+    read.push(tx.state_version);
+    if (tx.state_version === 3) {
+      top = 7;
+    }
+    if (tx.state_version === 7) {
+      stream.stop();
+    }
+  }
+  expect(read).toEqual([1, 2, 3, 4, 6, 7]);
+});
+
+test("Test stream tail mode waits at the top of the ledger", async () => {
+  let top = 3;
+  let polls = 0;
+  const fetch = fetchPage(() => top);
+  const stream = new TransactionStream(
+    async (fromStateVersion, cursor) => {
+      // New transactions only after a few polls at the top
+      if (++polls === 5) {
+        top = 4;
+      }
+      return fetch(fromStateVersion, cursor);
+    },
+    { tail: true, pollingInterval: 1 },
+  );
+  const read: number[] = [];
+  for await (const tx of stream) {
+    read.push(tx.state_version);
+    if (tx.state_version === 4) {
+      stream.stop();
+    }
+  }
+  expect(read).toEqual([1, 2, 3, 4]);
+  expect(polls).toBeGreaterThanOrEqual(5);
+});
+
+test("Test tail mode is rejected on pinned views", async () => {
+  const processor = new GatewayProcessor(
+    {} as GatewayApiClient,
+    undefined,
+    undefined,
+    RetryPolicy.none(),
+  );
+  const snapshot = await processor.atLedgerState(10);
+
+  expect(() => snapshot.streamTransactions({ tail: true })).toThrow(
+    InvalidLedgerStateError,
+  );
+  expect(snapshot.streamTransactions()).toBeInstanceOf(TransactionStream);
+});
@@ -0,0 +1,88 @@
+import {
+  TransactionCommittedDetailsResponse,
+  TransactionIntentStatus,
+  TransactionStatusResponse,
+} from "@radixdlt/babylon-gateway-api-sdk";
+import { TransactionTracker, TransactionTrackerEvent } from "../src";
+
+function status(
+  intentStatus: TransactionIntentStatus,
+  epoch: number,
+  errorMessage?: string,
+): TransactionStatusResponse {
+  return {
+    ledger_state: { epoch: epoch } as TransactionStatusResponse["ledger_state"],
+    status: "Pending",
+    intent_status: intentStatus,
+    intent_status_description: "",
+    known_payloads: [],
+    error_message: errorMessage,
+  };
+}
+
+// Serves the given statuses in order, repeating the last one
+function fetchStatus(statuses: TransactionStatusResponse[]) {
+  let calls = 0;
+  return async () => statuses[Math.min(calls++, statuses.length - 1)];
+}
+
+async function fetchCommittedDetails(
+  intentHash: string,
+): Promise<TransactionCommittedDetailsResponse> {
+  return {
+    ledger_state: {} as TransactionCommittedDetailsResponse["ledger_state"],
+    transaction: {
+      intent_hash: intentHash,
+      transaction_status: "CommittedSuccess",
+    } as TransactionCommittedDetailsResponse["transaction"],
+  };
+}
+
+const fastPolling = { initialDelay: 0, maxDelay: 1 };
+
+test("Test tracking until commit", async () => {
+  const tracker = new TransactionTracker(
+    "txid_1",
+    fetchStatus([
+      status("Pending", 1),
+      status("Pending", 1),
+      status("CommittedSuccess", 2),
+    ]),
+    fetchCommittedDetails,
+    fastPolling,
+  );
+  const events: TransactionTrackerEvent[] = [];
+  tracker.on("update", (update) => events.push(update.event));
+
+  const outcome = await tracker.result();
+  expect(events).toEqual([
+    "submitted",
+    "pending",
+    "pending",
+    "committedSuccess",
+  ]);
+  expect(outcome.receipt?.intentHash).toEqual("txid_1");
+  expect(outcome.receipt?.success).toBe(true);
+  expect(await tracker.result()).toBe(outcome);
+});
+
+test("Test rejection and expiry", async () => {
+  const rejected = new TransactionTracker(
+    "txid_2",
+    fetchStatus([status("PermanentlyRejected", 1, "Invalid signature")]),
+    fetchCommittedDetails,
+    fastPolling,
+  );
+  let reason: string | undefined = undefined;
+  rejected.on("rejected", (update) => (reason = update.errorMessage));
+  expect((await rejected.result()).event).toEqual("rejected");
+  expect(reason).toEqual("Invalid signature");
+
+  const expired = new TransactionTracker(
+    "txid_3",
+    fetchStatus([status("Pending", 9), status("Pending", 10)]),
+    fetchCommittedDetails,
+    { ...fastPolling, endEpochExclusive: 10 },
+  );
+  expect((await expired.result()).event).toEqual("expired");
+});